@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+// Local stand-in for the parts of the Apify API that src/utils/sunbizApify.ts uses,
+// so both polling and webhook mode can be exercised without an Apify account.
+//
+//   npm run apify:stub
+//   APIFY_BASE_URL=http://localhost:8787/v2 APIFY_API_TOKEN=stub APIFY_WEBHOOK_SECRET=local-secret npm run dev
+//
+// Environment:
+//   PORT                 port to listen on (default 8787)
+//   STUB_RUN_DELAY_MS    how long a run stays RUNNING (default 1500)
+//   STUB_RUN_STATUS      final run status (default SUCCEEDED)
+//   STUB_FIXTURE_FILE    JSON file with the dataset items to return instead of the built-in sample
+
+import crypto from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const RUN_DELAY_MS = Number(process.env.STUB_RUN_DELAY_MS) || 1500;
+const FINAL_STATUS = process.env.STUB_RUN_STATUS || 'SUCCEEDED';
+
+const runs = new Map();
+const datasets = new Map();
+
+function sampleItems(input) {
+  if (process.env.STUB_FIXTURE_FILE) {
+    return JSON.parse(readFileSync(process.env.STUB_FIXTURE_FILE, 'utf8'));
+  }
+
+  const term = String(input.searchTerm || 'STUB ENTITY LLC');
+  const documentNumber = input.searchType === 'DocumentNumber' ? term.toUpperCase() : 'L20000000001';
+  const corporateName = input.searchType === 'DocumentNumber' ? 'STUB ENTITY LLC' : term.toUpperCase();
+
+  return [
+    {
+      corporateName,
+      documentNumber,
+      corporationType: 'Florida Limited Liability Company',
+      status: 'A',
+      dateFiled: '01/15/2020',
+      feiEinNumber: '12-3456789',
+      principalAddress: { street: '100 Main St', city: 'Miami', state: 'FL', zip: '33101' },
+      mailingAddress: { street: '100 Main St', city: 'Miami', state: 'FL', zip: '33101' },
+      registeredAgent: { name: 'DOE, JANE', address: '100 Main St, Miami, FL 33101' },
+      officers: [{ name: 'DOE, JANE', title: 'MGR', address: '100 Main St, Miami, FL 33101' }],
+      annualReports: [
+        { reportYear: '2024', filedDate: '02/01/2024' },
+        { reportYear: '2025', filedDate: '02/03/2025' },
+      ],
+      documentImages: [],
+      detailUrl: `https://search.sunbiz.org/Inquiry/CorporationSearch/SearchResultDetail?documentNumber=${documentNumber}`,
+    },
+  ].slice(0, Number(input.maxItems) || 1);
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function fireWebhooks(run, webhooks) {
+  for (const webhook of webhooks) {
+    const eventType = `ACTOR.RUN.${run.status.replace('-', '_')}`;
+    if (Array.isArray(webhook.eventTypes) && !webhook.eventTypes.includes(eventType)) continue;
+
+    const headers = { 'Content-Type': 'application/json', ...JSON.parse(webhook.headersTemplate || '{}') };
+    const payload = {
+      userId: 'stub-user',
+      createdAt: new Date().toISOString(),
+      eventType,
+      eventData: { actorId: run.actId, actorRunId: run.id },
+      resource: run,
+    };
+
+    try {
+      const response = await fetch(webhook.requestUrl, { method: 'POST', headers, body: JSON.stringify(payload) });
+      console.log(`[apify-stub] Webhook ${eventType} -> ${webhook.requestUrl}: ${response.status}`);
+    } catch (error) {
+      console.error(`[apify-stub] Webhook to ${webhook.requestUrl} failed:`, error.message);
+    }
+  }
+}
+
+async function startRun(actorId, input, webhooksParam) {
+  const run = {
+    id: crypto.randomBytes(8).toString('hex'),
+    actId: actorId,
+    status: 'RUNNING',
+    defaultDatasetId: crypto.randomBytes(8).toString('hex'),
+    statusMessage: null,
+    startedAt: new Date().toISOString(),
+  };
+  runs.set(run.id, run);
+
+  const webhooks = webhooksParam ? JSON.parse(Buffer.from(webhooksParam, 'base64').toString('utf8')) : [];
+
+  setTimeout(() => {
+    run.status = FINAL_STATUS;
+    run.finishedAt = new Date().toISOString();
+    // Made-up but plausible numbers so usage accounting has something to add up.
+    run.stats = { computeUnits: 0.01, runTimeSecs: RUN_DELAY_MS / 1000 };
+    run.usage = { ACTOR_COMPUTE_UNITS: 0.01 };
+    run.usageUsd = { ACTOR_COMPUTE_UNITS: 0.004 };
+    run.usageTotalUsd = 0.004;
+    datasets.set(run.defaultDatasetId, FINAL_STATUS === 'SUCCEEDED' ? sampleItems(input) : []);
+    console.log(`[apify-stub] Run ${run.id} ${run.status}`);
+    fireWebhooks(run, webhooks);
+  }, RUN_DELAY_MS);
+
+  return run;
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  console.log(`[apify-stub] ${req.method} ${url.pathname}`);
+
+  try {
+    const startMatch = url.pathname.match(/^\/v2\/actors\/([^/]+)\/runs$/);
+    if (req.method === 'POST' && startMatch) {
+      const input = await readBody(req);
+      const run = await startRun(decodeURIComponent(startMatch[1]), input, url.searchParams.get('webhooks'));
+      return sendJson(res, 201, { data: run });
+    }
+
+    const runMatch = url.pathname.match(/^\/v2\/actor-runs\/([^/]+)$/);
+    if (req.method === 'GET' && runMatch) {
+      const run = runs.get(runMatch[1]);
+      return run ? sendJson(res, 200, { data: run }) : sendJson(res, 404, { error: { message: 'Run not found' } });
+    }
+
+    const datasetMatch = url.pathname.match(/^\/v2\/datasets\/([^/]+)\/items$/);
+    if (req.method === 'GET' && datasetMatch) {
+      return sendJson(res, 200, datasets.get(datasetMatch[1]) || []);
+    }
+
+    return sendJson(res, 404, { error: { message: 'Not implemented by the stub' } });
+  } catch (error) {
+    return sendJson(res, 500, { error: { message: error.message } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[apify-stub] Listening on http://localhost:${PORT}/v2`);
+});
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getApifyBudgetStatus, listApifyRuns, summarizeApifyRuns } from '@/utils/apifyUsage';
+import { getSunbizProviderHealth } from '@/utils/sunbiz';
+
+// -------------------
+// Configuration
+// -------------------
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -------------------
+// Helper Functions
+// -------------------
+function parseDay(value: unknown): string | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return Number.isNaN(Date.parse(`${value}T00:00:00Z`)) ? null : value;
+}
+
+/** Requires `Authorization: Bearer $ADMIN_API_TOKEN`; closed when ADMIN_API_TOKEN is unset. */
+function isAuthorized(req: NextApiRequest): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    console.error('[apifyUsage] ADMIN_API_TOKEN is not set; rejecting request');
+    return false;
+  }
+
+  const provided = String(req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  return provided.length === token.length && crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(token));
+}
+
+// -------------------
+// API Handler
+// -------------------
+// Apify spend by day and actor, defaulting to the current month.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const from = req.query.from === undefined ? `${today.slice(0, 7)}-01` : parseDay(req.query.from);
+  const to = req.query.to === undefined ? today : parseDay(req.query.to);
+  if (!from || !to) {
+    return res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format.' });
+  }
+  if (from > to) {
+    return res.status(400).json({ error: 'from must not be after to.' });
+  }
+  if (Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * DAY_MS) {
+    return res.status(400).json({ error: `The range can span at most ${MAX_RANGE_DAYS} days.` });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const [records, budget] = await Promise.all([listApifyRuns(from, to), getApifyBudgetStatus()]);
+    const byDay = summarizeApifyRuns(records);
+    const totals = byDay.reduce(
+      (sum, row) => ({
+        runs: sum.runs + row.runs,
+        succeeded: sum.succeeded + row.succeeded,
+        failed: sum.failed + row.failed,
+        items: sum.items + row.items,
+        computeUnits: sum.computeUnits + row.computeUnits,
+        costUsd: sum.costUsd + row.costUsd,
+      }),
+      { runs: 0, succeeded: 0, failed: 0, items: 0, computeUnits: 0, costUsd: 0 }
+    );
+
+    return res.status(200).json({
+      from,
+      to,
+      totals,
+      byDay,
+      budget,
+      providers: getSunbizProviderHealth(),
+      meta: { duration: Date.now() - startTime },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[apifyUsage] Failed to build usage summary:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}`, meta: { duration: Date.now() - startTime } });
+  }
+}
@@ -1,21 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { JSDOM } from 'jsdom';
-import chromium from '@sparticuz/chromium';
-import puppeteer, { Browser, Page } from 'puppeteer-core';
+import { Page } from 'puppeteer-core';
+import { BBB_PROFILE, BrowserPoolStats, getBrowserPoolStats, withBrowser } from '@/utils/browser';
+import { withResultCache } from '@/utils/resultCache';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const USER_AGENTS = [
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36",
-  "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15",
-  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0",
-];
-
 // Minimum match score to consider a result valid (0-1)
 const MIN_MATCH_SCORE = 0.65;
 
@@ -54,6 +46,9 @@ interface BBBSearchResult {
     score: number;
     matchType: string;
   }>;
+  meta?: {
+    pool: BrowserPoolStats;
+  };
 }
 
 interface ParsedResultCard {
@@ -589,48 +584,6 @@ function parseSearchResults(html: string): ParsedResultCard[] {
 // BROWSER UTILITIES
 // ============================================
 
-/**
- * Launch browser with optimized settings
- */
-async function launchBrowser(): Promise<Browser> {
-  return puppeteer.launch({
-    args: [
-      ...chromium.args,
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas',
-      '--disable-gpu',
-      '--window-size=1920,1080',
-    ],
-    executablePath: await chromium.executablePath(),
-    headless: true,
-  });
-}
-
-/**
- * Configure page with anti-detection measures
- */
-async function configurePage(page: Page): Promise<void> {
-  // Random user agent
-  const userAgent = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-  await page.setUserAgent(userAgent);
-  
-  // Set viewport
-  await page.setViewport({ width: 1920, height: 1080 });
-  
-  // Set extra headers
-  await page.setExtraHTTPHeaders({
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-  });
-  
-  // Mask webdriver detection
-  await page.evaluateOnNewDocument(() => {
-    Object.defineProperty(navigator, 'webdriver', { get: () => false });
-  });
-}
-
 /**
  * Search BBB with a specific query
  */
@@ -675,7 +628,7 @@ async function searchBBB(
 // MAIN API HANDLER
 // ============================================
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse<BBBSearchResult>) {
+async function handler(req: NextApiRequest, res: NextApiResponse<BBBSearchResult>) {
   // CORS Headers
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
@@ -693,8 +646,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     });
   }
 
-  let browser: Browser | null = null;
-
   try {
     const { companyName, city, state } = req.body;
 
@@ -712,45 +663,46 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     const searchQueries = generateSearchQueries(companyName);
     console.log(`[BBB_DEBUG] Generated ${searchQueries.length} search queries:`, searchQueries);
 
-    // Launch browser
-    browser = await launchBrowser();
-    const page = await browser.newPage();
-    await configurePage(page);
+    const { allResults, searchAttempts } = await withBrowser(BBB_PROFILE, async session => {
+      const page = await session.newPage();
+      const allResults: ParsedResultCard[] = [];
+      const searchAttempts: string[] = [];
 
-    let allResults: ParsedResultCard[] = [];
-    const searchAttempts: string[] = [];
+      // Try multiple search queries
+      for (let i = 0; i < Math.min(searchQueries.length, MAX_SEARCH_ATTEMPTS); i++) {
+        const query = searchQueries[i];
+        searchAttempts.push(query);
 
-    // Try multiple search queries
-    for (let i = 0; i < Math.min(searchQueries.length, MAX_SEARCH_ATTEMPTS); i++) {
-      const query = searchQueries[i];
-      searchAttempts.push(query);
-      
-      console.log(`[BBB_DEBUG] Attempt ${i + 1}: Searching for "${query}"`);
-      
-      const results = await searchBBB(page, query, city, state);
-      
-      // Add unique results
-      for (const result of results) {
-        const exists = allResults.some(r => 
-          normalizeCompanyName(r.companyName) === normalizeCompanyName(result.companyName)
-        );
-        if (!exists) {
-          allResults.push(result);
+        console.log(`[BBB_DEBUG] Attempt ${i + 1}: Searching for "${query}"`);
+
+        const results = await searchBBB(page, query, city, state);
+
+        // Add unique results
+        for (const result of results) {
+          const exists = allResults.some(r =>
+            normalizeCompanyName(r.companyName) === normalizeCompanyName(result.companyName)
+          );
+          if (!exists) {
+            allResults.push(result);
+          }
         }
+
+        console.log(`[BBB_DEBUG] Found ${results.length} results (Total unique: ${allResults.length})`);
+
+        // If we have enough results, stop searching
+        if (allResults.length >= 10) break;
       }
-      
-      console.log(`[BBB_DEBUG] Found ${results.length} results (Total unique: ${allResults.length})`);
-      
-      // If we have enough results, stop searching
-      if (allResults.length >= 10) break;
-    }
+
+      return { allResults, searchAttempts };
+    });
 
     if (allResults.length === 0) {
       console.log(`[BBB_DEBUG] No results found after all search attempts`);
       return res.status(404).json({
         success: false,
         message: `No BBB record found for "${companyName}" in ${city}, ${state}.`,
-        searchAttempts
+        searchAttempts,
+        meta: { pool: getBrowserPoolStats() }
       });
     }
 
@@ -763,7 +715,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
         success: false,
         message: `No matching BBB record found for "${companyName}". Closest matches below confidence threshold.`,
         searchAttempts,
-        allCandidates: allScores.slice(0, 5) // Return top 5 candidates
+        allCandidates: allScores.slice(0, 5), // Return top 5 candidates
+        meta: { pool: getBrowserPoolStats() }
       });
     }
 
@@ -784,7 +737,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
         matchType: matchType,
         searchQuery: searchAttempts[0]
       },
-      searchAttempts
+      searchAttempts,
+      meta: { pool: getBrowserPoolStats() }
     });
 
   } catch (error: any) {
@@ -793,13 +747,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       success: false,
       message: "Internal Server Error",
     });
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
   }
 }
 
+export default withResultCache(
+  {
+    source: 'bbb',
+    query: req => {
+      const { companyName, city, state } = req.body || {};
+      return companyName && city && state ? { companyName, city, state } : null;
+    },
+  },
+  handler
+);
+
 // Export utilities for testing
 export { 
   generateNameVariations, 
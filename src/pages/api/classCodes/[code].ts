@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getClassCodeDatasetInfo, lookupClassCode, normalizeClassCode } from '@/utils/classCodes';
+
+// -------------------
+// API Handler
+// -------------------
+// Serves the bundled class code reference; never scrapes.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const code = normalizeClassCode(req.query.code);
+  if (!code) {
+    return res.status(400).json({ error: 'Class code must be up to four digits.' });
+  }
+
+  const dataset = getClassCodeDatasetInfo();
+  const entry = lookupClassCode(code);
+  if (!entry) {
+    return res.status(404).json({ error: `Class code ${code} is not in the reference table.`, dataset });
+  }
+
+  return res.status(200).json({ ...entry, dataset });
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { buildCompanyProfile, PROFILE_SOURCES, ProfileSourceName } from '@/utils/companyProfile';
+import { getInternalBaseUrl } from '@/utils/internalApi';
+import { parseCacheMode } from '@/utils/resultCache';
+
+// -------------------
+// Helper Functions
+// -------------------
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseSources(value: unknown): ProfileSourceName[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((name): name is ProfileSourceName => PROFILE_SOURCES.includes(name));
+}
+
+// -------------------
+// API Handler
+// -------------------
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const companyName = optionalString(req.body?.companyName);
+  if (!companyName) {
+    return res.status(400).json({ error: 'Company name is required.' });
+  }
+
+  const input = {
+    companyName,
+    documentNumber: optionalString(req.body.documentNumber),
+    licenseNumber: optionalString(req.body.licenseNumber),
+    fein: optionalString(req.body.fein),
+    city: optionalString(req.body.city),
+    state: optionalString(req.body.state),
+    cache: parseCacheMode(req.body.cache),
+  };
+
+  console.log(`[companyProfile] Building profile for: ${companyName}`);
+  const startTime = Date.now();
+
+  try {
+    const profile = await buildCompanyProfile(getInternalBaseUrl(req), input, {
+      sources: parseSources(req.body.sources),
+    });
+    const duration = Date.now() - startTime;
+    console.log(`[companyProfile] Completed in ${duration}ms`);
+
+    return res.status(200).json({
+      ...profile,
+      meta: { duration },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[companyProfile] Unexpected error:', errorMessage);
+    return res.status(500).json({
+      error: `Unexpected error: ${errorMessage}`,
+      meta: { duration },
+    });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { expireStaleJob } from '@/utils/jobRunner';
+import { getJob } from '@/utils/jobStore';
+
+// -------------------
+// API Handler
+// -------------------
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const id = String(req.query.id || '');
+
+  try {
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+
+    return res.status(200).json(await expireStaleJob(job));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[jobs] Failed to read job:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}` });
+  }
+}
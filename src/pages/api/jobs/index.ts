@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getInternalBaseUrl } from '@/utils/internalApi';
+import { dispatchJob } from '@/utils/jobRunner';
+import { createJob, JOB_TYPES, JobType, validateJobInput } from '@/utils/jobStore';
+import { checkCallbackUrl } from '@/utils/outboundUrl';
+import { bearerTokenMatches } from '@/utils/requestAuth';
+
+// -------------------
+// API Handler
+// -------------------
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  // Jobs run scrapes and POST to caller-supplied URLs, so only token holders may queue them.
+  if (!bearerTokenMatches(req, process.env.ADMIN_API_TOKEN)) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  const { type, input, callbackUrl } = req.body || {};
+
+  if (!JOB_TYPES.includes(type)) {
+    return res.status(400).json({ error: `Job type must be one of: ${JOB_TYPES.join(', ')}.` });
+  }
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return res.status(400).json({ error: 'Job input must be an object.' });
+  }
+
+  const validated = validateJobInput(type as JobType, input);
+  if ('error' in validated) {
+    return res.status(400).json({ error: validated.error });
+  }
+
+  if (callbackUrl !== undefined) {
+    const callbackError = await checkCallbackUrl(callbackUrl);
+    if (callbackError) {
+      return res.status(400).json({ error: callbackError });
+    }
+  }
+
+  try {
+    const job = await createJob({ type: type as JobType, input: validated.input, callbackUrl });
+    await dispatchJob(getInternalBaseUrl(req), job.id);
+    console.log(`[jobs] Queued ${job.type} job ${job.id}`);
+
+    return res.status(202).json({
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[jobs] Failed to create job:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}` });
+  }
+}
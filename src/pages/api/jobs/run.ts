@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getInternalBaseUrl } from '@/utils/internalApi';
+import { runJob, runnerSecretMatches } from '@/utils/jobRunner';
+
+// -------------------
+// API Handler
+// -------------------
+// Internal: invoked by dispatchJob so each job runs in its own function invocation.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  if (!runnerSecretMatches(req.headers['x-jobs-secret'])) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  const { id } = req.body || {};
+  const startTime = Date.now();
+
+  try {
+    const job = await runJob(getInternalBaseUrl(req), String(id || ''));
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[jobs] Job ${job.id} finished as ${job.status} in ${duration}ms`);
+    return res.status(200).json({ id: job.id, status: job.status, meta: { duration } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[jobs] Runner failed:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}`, meta: { duration: Date.now() - startTime } });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { callInternalApi, getInternalBaseUrl } from '@/utils/internalApi';
+import { findRelatedEntities, getGraphEntity, indexSunbizEntity, MAX_RELATIONSHIP_DEPTH } from '@/utils/relationshipGraph';
+
+// -------------------
+// Configuration
+// -------------------
+const DETAIL_LOOKUP_TIMEOUT = 120000;
+const DEFAULT_DEPTH = 1;
+
+// -------------------
+// API Handler
+// -------------------
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const documentNumber = typeof req.query.documentNumber === 'string' ? req.query.documentNumber.trim().toUpperCase() : '';
+  if (!documentNumber) {
+    return res.status(400).json({ error: 'Document number is required.' });
+  }
+
+  const depth = req.query.depth === undefined ? DEFAULT_DEPTH : Number(req.query.depth);
+  if (!Number.isInteger(depth) || depth < 1 || depth > MAX_RELATIONSHIP_DEPTH) {
+    return res.status(400).json({ error: `depth must be a whole number from 1 to ${MAX_RELATIONSHIP_DEPTH}.` });
+  }
+
+  const refresh = req.query.refresh === 'true';
+  console.log(`[relationships] Looking up ${documentNumber} to depth ${depth}`);
+  const startTime = Date.now();
+
+  try {
+    // Entities are added to the graph as they are looked up; an unseen one is fetched first.
+    let indexed = false;
+    if (refresh || !(await getGraphEntity(documentNumber))) {
+      const detail = await callInternalApi(
+        getInternalBaseUrl(req),
+        '/api/scrapeSunbiz',
+        { documentNumber, cache: refresh ? 'bypass' : 'prefer' },
+        DETAIL_LOOKUP_TIMEOUT
+      );
+
+      if (detail.status !== 200 || !detail.body?.document_number) {
+        return res.status(detail.status === 200 ? 404 : detail.status).json({
+          error: detail.body?.error || 'Sunbiz entity not found.',
+          meta: { duration: Date.now() - startTime },
+        });
+      }
+
+      await indexSunbizEntity(detail.body);
+      indexed = true;
+    }
+
+    const result = await findRelatedEntities(documentNumber, depth);
+    if (!result) {
+      return res.status(404).json({ error: 'Sunbiz entity not found.', meta: { duration: Date.now() - startTime } });
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[relationships] Found ${result.connections.length} connected entities in ${duration}ms`);
+
+    return res.status(200).json({
+      documentNumber,
+      ...result,
+      meta: { indexed, duration },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[relationships] Lookup failed:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}`, meta: { duration: Date.now() - startTime } });
+  }
+}
@@ -1,13 +1,114 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import chromium from '@sparticuz/chromium';
-import puppeteer, { Page } from 'puppeteer-core';
+import { Page } from 'puppeteer-core';
 import { normalizeCompanyName, getAndAmpersandVariant } from "@/utils/normalizeCompanyName";
+import { DBPR_PROFILE, getBrowserPoolStats, withBrowser } from '@/utils/browser';
+import { withResultCache } from '@/utils/resultCache';
+import {
+  DbprCandidate,
+  DbprLicense,
+  parseDbprComplaintsHtml,
+  parseDbprLicenseHtml,
+  parseDbprSearchResults,
+  rollUpDbprLicenses,
+} from '@/utils/dbprParser';
+
+// -------------------
+// Type Definitions
+// -------------------
+
+/** A name search that returns every matching license instead of picking one. */
+interface CandidateSearch {
+  orgName?: string;
+  firstName?: string;
+  lastName?: string;
+  board?: string;
+  licenseType?: string;
+  city?: string;
+  county?: string;
+}
+
+/** A filter value that matches none of the search form's options. */
+class DbprSearchInputError extends Error {}
+
+// -------------------
+// Configuration
+// -------------------
+const CANDIDATE_FILTERS = ['board', 'licenseType', 'city', 'county'] as const;
+// Detail pages scraped per company; each one is a page load plus its complaints page.
+const MAX_LICENSES = 10;
+// Left of the route's 300s maxDuration (vercel.json) once this runs out; the
+// licenses scraped so far are returned as a partial result.
+const TIME_BUDGET_MS = Number(process.env.DBPR_TIME_BUDGET_MS) || 240000;
 
 // -------------------
 // Helper Functions
 // -------------------
 const normalize = (str: string) => str.toLowerCase().trim();
 
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Pick the option of `select[name=selectName]` whose value or label matches
+ * `wanted` exactly, or failing that whose label contains it.
+ */
+async function selectOptionByText(page: Page, selectName: string, wanted: string, label: string) {
+  const value = await page.evaluate((name, target) => {
+    const select = document.querySelector<HTMLSelectElement>(`select[name="${name}"]`);
+    if (!select) return null;
+
+    const needle = target.trim().toLowerCase();
+    const options = Array.from(select.options);
+    const match =
+      options.find(o => o.value.toLowerCase() === needle || (o.textContent || '').trim().toLowerCase() === needle) ||
+      options.find(o => (o.textContent || '').trim().toLowerCase().includes(needle));
+    return match ? match.value : null;
+  }, selectName, wanted);
+
+  if (value === null) {
+    throw new DbprSearchInputError(`No DBPR ${label} matches "${wanted}".`);
+  }
+  await page.select(`select[name="${selectName}"]`, value);
+}
+
+async function searchCandidates(page: Page, baseUrl: string, search: CandidateSearch): Promise<DbprCandidate[]> {
+  await page.goto(baseUrl, { waitUntil: 'networkidle2' });
+  await page.click('input[type="radio"][value="Name"]');
+  await page.click('button[name="SelectSearchType"]');
+  await page.waitForNavigation({ waitUntil: 'networkidle2' });
+
+  // License types are loaded for the chosen board, so the board goes first
+  if (search.board) {
+    await selectOptionByText(page, 'Board', search.board, 'board');
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: 10000 }).catch(() => undefined);
+  }
+  if (search.licenseType) {
+    await selectOptionByText(page, 'LicenseType', search.licenseType, 'license type');
+  }
+  if (search.county) {
+    await selectOptionByText(page, 'County', search.county, 'county');
+  }
+  if (search.city) await page.type('input[name="City"]', search.city);
+  if (search.orgName) await page.type('input[name="OrgName"]', search.orgName);
+  if (search.lastName) await page.type('input[name="LastName"]', search.lastName);
+  if (search.firstName) await page.type('input[name="FirstName"]', search.firstName);
+
+  // Ask for the largest page size so one results page holds every candidate
+  const largestPageSize = await page.evaluate(() => {
+    const select = document.querySelector<HTMLSelectElement>('select[name="RecsPerPage"]');
+    if (!select) return null;
+    const values = Array.from(select.options).map(o => o.value).filter(v => /^\d+$/.test(v));
+    return values.sort((a, b) => Number(b) - Number(a))[0] || null;
+  });
+  if (largestPageSize) await page.select('select[name="RecsPerPage"]', largestPageSize);
+
+  await page.click('button[name="Search1"]');
+  await page.waitForNavigation({ waitUntil: 'networkidle2' });
+
+  return parseDbprSearchResults(await page.content(), page.url());
+}
+
 async function searchByCompanyName(page: Page, baseUrl: string, name: string) {
   await page.goto(baseUrl, { waitUntil: 'networkidle2' });
   await page.click('input[type="radio"][value="Name"]');
@@ -32,8 +133,9 @@ async function searchByCompanyName(page: Page, baseUrl: string, name: string) {
     l => normalizeCompanyName(l.text).includes(normalizedName)
   );
 
-  if (exactMatches.length === 1) return exactMatches[0].href;
-  if (exactMatches.length > 1) return exactMatches[0].href; // pick first
+  // A company often holds several licenses (e.g. general contractor and roofing); keep every exact match
+  const exactUrls = Array.from(new Set(exactMatches.map(l => l.href)));
+  if (exactUrls.length > 0) return exactUrls;
   if (closeMatches.length > 0) return { reviewNeeded: closeMatches.map(l => l.text) };
 
   return null;
@@ -92,36 +194,23 @@ async function searchByLicenseNumber(page: Page, baseUrl: string, license: strin
   return { error: "License number not found." };
 }
 
-
-
-
-
-
-
-
-async function scrapeCompanyDetails(page: Page, url: string) {
+/**
+ * Scrape one license detail page and, unless `withComplaints` is false, its
+ * complaints page. `complaints` stays null when the complaints page is missing,
+ * skipped or can't be parsed. `raw` (the label/value map) is only included for
+ * debug requests.
+ */
+async function scrapeCompanyDetails(
+  page: Page,
+  url: string,
+  debug = false,
+  withComplaints = true
+): Promise<DbprLicense & { raw?: Record<string, string> }> {
   await page.goto(url, { waitUntil: "networkidle2" });
-
-  // scrape all company details
-  const companyData = await page.evaluate(() => {
-    const results: { [key: string]: string } = {};
-    const allTds = Array.from(document.querySelectorAll("td"));
-
-    for (let i = 0; i < allTds.length; i++) {
-      let keyText = allTds[i].textContent?.trim() || "";
-      if (keyText.endsWith(":")) {
-        const key = keyText.slice(0, -1).trim();
-        if (i + 1 < allTds.length) {
-          const value = allTds[i + 1].textContent?.trim() || "";
-          if (key && (value || !results[key])) {
-            results[key] = value;
-          }
-        }
-      }
-    }
-
-    return results;
-  });
+  const { license, raw } = parseDbprLicenseHtml(await page.content());
+  if (!withComplaints) {
+    return debug ? { ...license, raw } : license;
+  }
 
   // now handle license complaint page
   const complaintLink = await page.evaluate(() => {
@@ -131,158 +220,192 @@ async function scrapeCompanyDetails(page: Page, url: string) {
     return anchor ? (anchor as HTMLAnchorElement).href : null;
   });
 
-
-  
-let complaints: any[] = [];
-
-if (complaintLink) {
-  await page.goto(complaintLink, { waitUntil: "networkidle2" });
-
-  complaints = await page.evaluate(() => {
-    // Select the specific table by its unique attributes
-    const targetTable = document.querySelector<HTMLTableElement>(
-      'table[style="padding: 10px 0"][cellspacing="0"][cellpadding="7"][width="100%"][border="0"][align="center"][height="50"]'
-    );
-
-    if (!targetTable) return [];
-
-    const rows = Array.from(targetTable.querySelectorAll("tr"));
-    const data: any[] = [];
-
-    for (let i = 1; i < rows.length; i++) { // skip header row
-      const cells = Array.from(rows[i].querySelectorAll("td")).map(td =>
-        td.textContent?.trim() || ""
-      );
-
-      if (cells.length > 1) {
-        data.push({
-          number: cells[0] || "",
-          class: cells[1] || "",
-          incidentDate: cells[2] || "",
-          status: cells[3] || "",
-          disposition: cells[4] || "",
-          dispositionDate: cells[5] || "",
-          discipline: cells[6] || ""
-        });
-      }
+  if (complaintLink) {
+    await page.goto(complaintLink, { waitUntil: "networkidle2" });
+    license.complaints = parseDbprComplaintsHtml(await page.content());
+    if (!license.complaints) {
+      console.warn(`[SCRAPE_COMPANY] Complaints table not found for ${license.licenseNumber || url}`);
     }
+  }
 
-    return data;
-  });
-}
-
-
-
-
-
-  return {
-    ...companyData,
-    complaints,
-  };
+  return debug ? { ...license, raw } : license;
 }
 
 // -------------------
 // API Handler
 // -------------------
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
     return res.status(405).end(`Method ${req.method} Not Allowed`);
   }
 
   const { companyName, licenseNumber } = req.body;
-  if (!companyName && !licenseNumber) {
-    return res.status(400).json({ error: 'Company name or license number required.' });
+  const debug = req.body.debug === true || req.body.debug === 'true';
+  const firstName = optionalString(req.body.firstName);
+  const lastName = optionalString(req.body.lastName);
+  if (!companyName && !licenseNumber && !firstName && !lastName) {
+    return res.status(400).json({ error: 'Company name, licensee name or license number required.' });
   }
 
-  let browser = null;
-  try {
-    browser = await puppeteer.launch({
-      args: chromium.args,
-      defaultViewport: { width: 1920, height: 1080 },
-      executablePath: await chromium.executablePath(),
-      headless: "shell",
-    });
-
-    const page = await browser.newPage();
-    const baseUrl = 'https://www.myfloridalicense.com/wl11.asp?mode=0&SID=';
-
-    let responseData: any = null;
-
-    if (companyName && !licenseNumber) {
-      let result = await searchByCompanyName(page, baseUrl, companyName);
-
-      // If original name found nothing, try and/& variant
-      if (!result) {
-        const variant = getAndAmpersandVariant(companyName);
-        if (variant) {
-          console.log(`[SCRAPE_COMPANY] Retrying with and/& variant: "${variant}"`);
-          result = await searchByCompanyName(page, baseUrl, variant);
-        }
-      }
-
-      if (!result) return res.status(404).json({ error: 'Company not found.' });
-      if ((result as any).reviewNeeded) {
-        return res.status(200).json({ review: (result as any).reviewNeeded });
-      }
-      responseData = await scrapeCompanyDetails(page, result as string);
+  // Individual names and filters return a candidate list rather than one license's details
+  const filters = Object.fromEntries(CANDIDATE_FILTERS.map(key => [key, optionalString(req.body[key])]));
+  const candidateMode = Boolean(firstName || lastName || CANDIDATE_FILTERS.some(key => filters[key]));
+  if (candidateMode) {
+    if (licenseNumber) {
+      return res.status(400).json({ error: 'License number search cannot be combined with licensee name or filters.' });
+    }
+    if (!lastName && !companyName) {
+      return res.status(400).json({ error: 'Last name or company name required to search by first name or filters.' });
     }
-
-
-    
-    if (licenseNumber && !companyName) {
-  const result = await searchByLicenseNumber(page, baseUrl, licenseNumber);
-
-  if (!result) return res.status(404).json({ error: 'License number not found.' });
-  if ((result as any).reviewNeeded) {
-    return res.status(200).json({ review: (result as any).reviewNeeded });
-  }
-  if ((result as any).message) {
-    return res.status(200).json(result);
   }
-responseData = await scrapeCompanyDetails(page, result as string);
-}
 
+  const deadline = Date.now() + TIME_BUDGET_MS;
+  const outOfTime = () => Date.now() >= deadline;
 
+  try {
+    return await withBrowser(DBPR_PROFILE, async session => {
+      const page = await session.newPage();
+      const baseUrl = 'https://www.myfloridalicense.com/wl11.asp?mode=0&SID=';
+
+      let licenses: DbprLicense[] = [];
+      let warning: string | null = null;
+
+      if (candidateMode) {
+        const search: CandidateSearch = { orgName: optionalString(companyName), firstName, lastName, ...filters };
+        const candidates = await searchCandidates(page, baseUrl, search);
+        console.log(`[SCRAPE_COMPANY] Found ${candidates.length} candidate license(s)`);
+
+        if (!candidates.length) return res.status(404).json({ error: 'No licensees found.' });
+        return res.status(200).json({
+          candidates,
+          meta: { count: candidates.length, pool: getBrowserPoolStats() },
+        });
+      }
 
+      if (companyName && !licenseNumber) {
+        let result = await searchByCompanyName(page, baseUrl, companyName);
 
+        // If original name found nothing, try and/& variant
+        if (!result) {
+          const variant = getAndAmpersandVariant(companyName);
+          if (variant) {
+            console.log(`[SCRAPE_COMPANY] Retrying with and/& variant: "${variant}"`);
+            result = await searchByCompanyName(page, baseUrl, variant);
+          }
+        }
 
-    if (companyName && licenseNumber) {
-      const companyResult = await searchByCompanyName(page, baseUrl, companyName);
-      const licenseResult = await searchByLicenseNumber(page, baseUrl, licenseNumber);
+        if (!result) return res.status(404).json({ error: 'Company not found.' });
+        if (!Array.isArray(result)) {
+          return res.status(200).json({ review: result.reviewNeeded });
+        }
 
-      if (!companyResult || !licenseResult) {
-        return res.status(404).json({ error: 'Not found.' });
+        if (result.length > MAX_LICENSES) {
+          console.log(`[SCRAPE_COMPANY] ${result.length} matching licenses, scraping the first ${MAX_LICENSES}`);
+        }
+        const urls = result.slice(0, MAX_LICENSES);
+        for (const url of urls) {
+          if (outOfTime()) {
+            warning = `Time budget ran out after ${licenses.length} of ${urls.length} licenses.`;
+            console.warn(`[SCRAPE_COMPANY] ${warning}`);
+            break;
+          }
+          licenses.push(await scrapeCompanyDetails(page, url, debug));
+        }
       }
 
-      if ((companyResult as any).reviewNeeded || (licenseResult as any).reviewNeeded) {
-        return res.status(200).json({ error: 'Review needed due to multiple results.' });
+      if (licenseNumber && !companyName) {
+        const result = await searchByLicenseNumber(page, baseUrl, licenseNumber);
+
+        if (!result) return res.status(404).json({ error: 'License number not found.' });
+        if ((result as any).reviewNeeded) {
+          return res.status(200).json({ review: (result as any).reviewNeeded });
+        }
+        if ((result as any).message) {
+          return res.status(200).json(result);
+        }
+        licenses = [await scrapeCompanyDetails(page, result as string, debug)];
       }
 
-      const companyData = await scrapeCompanyDetails(page, companyResult as string) as Record<string, any>;
-      const licenseData = await scrapeCompanyDetails(page, licenseResult as string) as Record<string, any>;
+      if (companyName && licenseNumber) {
+        const companyResult = await searchByCompanyName(page, baseUrl, companyName);
+        const licenseResult = await searchByLicenseNumber(page, baseUrl, licenseNumber);
 
-      const name1 = normalize(companyData['Primary Name'] || '');
-      const name2 = normalize(licenseData['Primary Name'] || '');
+        if (!companyResult || !licenseResult) {
+          return res.status(404).json({ error: 'Not found.' });
+        }
 
+        if (!Array.isArray(companyResult) || (licenseResult as any).reviewNeeded) {
+          return res.status(200).json({ error: 'Review needed due to multiple results.' });
+        }
 
-      if (!name1 || !name2) {
-        return res.status(404).json({ error: 'Not found.' });
-      }
+        const licenseData = await scrapeCompanyDetails(page, licenseResult as string, debug);
+        const licenseName = normalize(licenseData.licenseeName);
+        if (!licenseName) {
+          return res.status(404).json({ error: 'Not found.' });
+        }
 
-      if (name1 === name2 || name1.includes(name2) || name2.includes(name1)) {
-        responseData = licenseData; // prefer license data
-      } else {
-        return res.status(200).json({ error: 'Provided company name and license number do not match.' });
-      }
-    }
+        // The company can hold several licenses; any one of them may be the license asked about.
+        // Only the licensee name and number are compared, so their complaints pages are skipped.
+        let matched = false;
+        for (const url of companyResult.slice(0, MAX_LICENSES)) {
+          if (outOfTime()) break;
+          const companyData = await scrapeCompanyDetails(page, url, false, false);
+          const candidateName = normalize(companyData.licenseeName);
+          matched =
+            (Boolean(licenseData.licenseNumber) && companyData.licenseNumber === licenseData.licenseNumber) ||
+            (Boolean(candidateName) &&
+              (candidateName === licenseName || candidateName.includes(licenseName) || licenseName.includes(candidateName)));
+          if (matched) break;
+        }
 
-    await browser.close();
-    return res.status(200).json({ data: responseData });
+        if (!matched && outOfTime()) {
+          warning = 'Time budget ran out before the company name could be matched to the license.';
+          console.warn(`[SCRAPE_COMPANY] ${warning}`);
+        } else if (!matched) {
+          return res.status(200).json({ error: 'Provided company name and license number do not match.' });
+        }
+        licenses = [licenseData]; // prefer license data
+      }
 
+      // `data` stays the first license for callers that only read one
+      return res.status(200).json({
+        data: licenses[0] || null,
+        licenses,
+        rollup: rollUpDbprLicenses(licenses),
+        ...(warning ? { partialSuccess: true, warning } : {}),
+        meta: { pool: getBrowserPoolStats() },
+      });
+    });
   } catch (err) {
-    if (browser) await browser.close();
+    if (err instanceof DbprSearchInputError) {
+      return res.status(400).json({ error: err.message });
+    }
     const error = err instanceof Error ? err.message : String(err);
     return res.status(500).json({ error });
   }
-}
\ No newline at end of file
+}
+
+export default withResultCache(
+  {
+    source: 'dbpr',
+    query: req => {
+      const { companyName, licenseNumber, firstName, lastName, board, licenseType, city, county, debug } = req.body || {};
+      // Debug responses carry the raw label/value map, so they are cached apart from normal ones.
+      return companyName || licenseNumber || firstName || lastName
+        ? {
+            companyName,
+            licenseNumber,
+            firstName,
+            lastName,
+            board,
+            licenseType,
+            city,
+            county,
+            debug: debug === true || debug === 'true' || undefined,
+          }
+        : null;
+    },
+  },
+  handler
+);
@@ -1,6 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getAndAmpersandVariant } from "@/utils/normalizeCompanyName";
+import { withResultCache } from '@/utils/resultCache';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.VITE_SUPABASE_URL;
@@ -511,7 +512,7 @@ async function fetchGoogleReviews(companyName: string, state: string = 'Florida'
 /**
  * Main handler for the Google Reviews API endpoint
  */
-export default async function handler(
+async function handler(
   req: ApiRequest, 
   res: NextApiResponse<ReviewsData | { error: string; success: boolean; message?: string }>
 ) {
@@ -564,5 +565,16 @@ export default async function handler(
   }
 }
 
+export default withResultCache(
+  {
+    source: 'reviews',
+    query: req => {
+      const { companyName, state = 'Florida' } = req.body || {};
+      return companyName ? { companyName, state } : null;
+    },
+  },
+  handler
+);
+
 // Export functions for use in other modules
 export { fetchGoogleReviews, generateNameVariations, calculateMatchScore, extractCoreName };
@@ -0,0 +1,307 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Page } from 'puppeteer-core';
+import { normalizeCompanyName, splitDbaName } from '@/utils/normalizeCompanyName';
+import { FictitiousNameOwner, parseFictitiousNameDetailHtml } from '@/utils/sunbizDetailParser';
+import { getBrowserPoolStats } from '@/utils/browser';
+import { SunbizBlockedError, waitForSunbizContent, withRetry } from '@/utils/sunbiz';
+import { callInternalApi, getInternalBaseUrl } from '@/utils/internalApi';
+import { parseCacheMode, withResultCache } from '@/utils/resultCache';
+
+// -------------------
+// Configuration
+// -------------------
+const MAX_ATTEMPTS = 2;
+const ATTEMPT_TIMEOUT = 90000; // Give Cloudflare's browser challenge time to clear.
+const OWNER_LOOKUP_TIMEOUT = 120000;
+const MAX_CANDIDATES = 20;
+
+const FICTITIOUS_NAME_BASE_URL = 'https://search.sunbiz.org/Inquiry/FictitiousName';
+const SEARCH_RESULTS_SELECTOR = '#search-results tbody tr';
+const SEARCH_INPUT_SELECTOR = '#SearchTerm, input[name="SearchTerm"]';
+const DETAIL_PAGE_SELECTOR = '.searchResultDetail';
+
+type FictitiousNameCandidate = {
+  name: string;
+  registrationNumber: string;
+  status: string;
+  detailUrl: string | null;
+};
+
+type FictitiousNameSearch = {
+  term: string;
+  byRegistrationNumber: boolean;
+};
+
+type ResolvedOwner = FictitiousNameOwner & {
+  entity?: Record<string, unknown> | null;
+  entity_error?: string;
+};
+
+// -------------------
+// Helper Functions
+// -------------------
+async function readCandidates(page: Page): Promise<FictitiousNameCandidate[]> {
+  const table = await page.evaluate((rowSelector: string) => {
+    const headers = Array.from(document.querySelectorAll('#search-results thead th, #search-results thead td')).map(
+      cell => cell.textContent?.replace(/\s+/g, ' ').trim().toLowerCase() || ''
+    );
+    const rows = Array.from(document.querySelectorAll(rowSelector)).map(row => {
+      const cells = Array.from(row.querySelectorAll('td'));
+      return {
+        cells: cells.map(cell => cell.textContent?.replace(/\s+/g, ' ').trim() || ''),
+        link: row.querySelector('a')?.getAttribute('href') || null,
+      };
+    });
+    return { headers, rows };
+  }, SEARCH_RESULTS_SELECTOR);
+
+  const column = (pattern: RegExp, fallback: number) => {
+    const index = table.headers.findIndex(header => pattern.test(header));
+    return index >= 0 ? index : fallback;
+  };
+  const nameColumn = column(/name/, 0);
+  const numberColumn = column(/number/, 1);
+  const statusColumn = column(/status/, 2);
+
+  return table.rows
+    .map(row => ({
+      name: row.cells[nameColumn] || '',
+      registrationNumber: row.cells[numberColumn] || '',
+      status: row.cells[statusColumn] || '',
+      detailUrl: row.link ? new URL(row.link, page.url()).toString() : null,
+    }))
+    .filter(candidate => candidate.name && candidate.registrationNumber)
+    .slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Pick the filing to open: the exact registration number, or the exact
+ * normalized name (preferring an active filing when several share it).
+ */
+function pickCandidate(candidates: FictitiousNameCandidate[], search: FictitiousNameSearch) {
+  if (search.byRegistrationNumber) {
+    return candidates.find(candidate => candidate.registrationNumber.toUpperCase() === search.term) || null;
+  }
+
+  const normalizedTerm = normalizeCompanyName(search.term);
+  const exactMatches = candidates.filter(candidate => normalizeCompanyName(candidate.name) === normalizedTerm);
+  return exactMatches.find(candidate => /^active$/i.test(candidate.status)) || exactMatches[0] || null;
+}
+
+/**
+ * Close matches to offer for manual review when nothing matched exactly: names
+ * that contain the search term or are contained in it, as the entity search
+ * does. A registration number either matches or it doesn't.
+ */
+function reviewCandidates(candidates: FictitiousNameCandidate[], search: FictitiousNameSearch) {
+  if (search.byRegistrationNumber) return [];
+
+  const normalizedTerm = normalizeCompanyName(search.term);
+  return candidates.filter(candidate => {
+    const normalizedName = normalizeCompanyName(candidate.name);
+    return normalizedName.includes(normalizedTerm) || normalizedTerm.includes(normalizedName);
+  });
+}
+
+async function searchFictitiousNames(page: Page, search: FictitiousNameSearch) {
+  const formPath = search.byRegistrationNumber ? 'ByDocumentNumber' : 'ByName';
+
+  await page.goto(`${FICTITIOUS_NAME_BASE_URL}/${formPath}`, { waitUntil: 'domcontentloaded', timeout: 60000 });
+  await waitForSunbizContent(page);
+
+  await page.type(SEARCH_INPUT_SELECTOR, search.term);
+  await page.click('input[type="submit"][value="Search Now"]');
+  await page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 60000 });
+  await waitForSunbizContent(page);
+}
+
+// -------------------
+// Single Attempt
+// -------------------
+async function lookupOnPage(page: Page, search: FictitiousNameSearch) {
+  await searchFictitiousNames(page, search);
+
+  // A registration number search can land directly on the filing.
+  if (await page.$(DETAIL_PAGE_SELECTOR)) {
+    const record = parseFictitiousNameDetailHtml(await page.content(), page.url());
+    return { record, candidates: [] as FictitiousNameCandidate[] };
+  }
+
+  const candidates = await readCandidates(page);
+  const match = pickCandidate(candidates, search);
+  if (!match?.detailUrl) {
+    return { record: null, candidates };
+  }
+
+  await page.goto(match.detailUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
+  await waitForSunbizContent(page);
+  const record = parseFictitiousNameDetailHtml(await page.content(), page.url());
+  return { record, candidates };
+}
+
+// -------------------
+// Retry Logic
+// -------------------
+
+/** Retries, timeouts and block detection are shared with the entity lookups. */
+async function lookupWithRetry(search: FictitiousNameSearch) {
+  try {
+    const { value, attempts } = await withRetry(`fictitious name: ${search.term}`, MAX_ATTEMPTS, ATTEMPT_TIMEOUT, page =>
+      lookupOnPage(page, search)
+    );
+    return { success: true as const, data: value, attempts };
+  } catch (error) {
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : String(error),
+      blocked: error instanceof SunbizBlockedError,
+      attempts: MAX_ATTEMPTS,
+    };
+  }
+}
+
+// -------------------
+// Owner Resolution
+// -------------------
+
+/**
+ * Fetch the full Sunbiz entity record for every owner that is a registered
+ * business, through `/api/scrapeSunbiz` so the entity lookup is cached as usual.
+ */
+async function resolveOwners(
+  req: NextApiRequest,
+  owners: FictitiousNameOwner[]
+): Promise<ResolvedOwner[]> {
+  const baseUrl = getInternalBaseUrl(req);
+  const cache = parseCacheMode(req.body.cache);
+
+  return Promise.all(
+    owners.map(async (owner): Promise<ResolvedOwner> => {
+      if (!owner.document_number) return owner;
+
+      try {
+        const response = await callInternalApi(
+          baseUrl,
+          '/api/scrapeSunbiz',
+          { documentNumber: owner.document_number, companyName: owner.name, cache },
+          OWNER_LOOKUP_TIMEOUT
+        );
+        if (response.status !== 200 || response.body?.error) {
+          return { ...owner, entity: null, entity_error: response.body?.error || `Lookup failed with status ${response.status}` };
+        }
+
+        const entity = { ...response.body };
+        delete entity.meta;
+        return { ...owner, entity };
+      } catch (error) {
+        return { ...owner, entity: null, entity_error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+}
+
+// -------------------
+// API Handler
+// -------------------
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const { fictitiousName, registrationNumber } = req.body;
+  if (!fictitiousName && !registrationNumber) {
+    return res.status(400).json({ error: 'Fictitious name or registration number is required.' });
+  }
+
+  // "Acme LLC d/b/a Acme Roofing" is filed under the trade name.
+  const search: FictitiousNameSearch = registrationNumber
+    ? { term: String(registrationNumber).replace(/\s+/g, '').toUpperCase(), byRegistrationNumber: true }
+    : { term: splitDbaName(fictitiousName)?.dbaName || String(fictitiousName).trim(), byRegistrationNumber: false };
+  const shouldResolveOwners = req.body.resolveOwners === true || req.body.resolveOwners === 'true';
+
+  console.log(`[scrapeSunbizFictitiousName] Starting lookup for: ${search.term}`);
+  const startTime = Date.now();
+
+  try {
+    const result = await lookupWithRetry(search);
+
+    if (!result.success) {
+      const duration = Date.now() - startTime;
+      if (result.blocked) {
+        return res.status(200).json({
+          record: null,
+          error: result.error,
+          meta: {
+            attempts: result.attempts,
+            duration,
+            blocked: true,
+            reason: 'sunbiz_security_verification',
+            pool: getBrowserPoolStats(),
+          },
+        });
+      }
+      return res.status(500).json({
+        error: result.error,
+        meta: { attempts: result.attempts, duration, pool: getBrowserPoolStats() },
+      });
+    }
+
+    const { record, candidates } = result.data;
+    if (!record) {
+      const duration = Date.now() - startTime;
+      // Close matches are returned for manual review, as scrapeSunbiz does.
+      const closeMatches = reviewCandidates(candidates, search);
+      if (closeMatches.length > 0) {
+        return res.status(200).json({
+          record: null,
+          review: closeMatches.map(candidate => candidate.name),
+          candidates: closeMatches,
+          meta: { provider: 'browser', attempts: result.attempts, duration, pool: getBrowserPoolStats() },
+        });
+      }
+      return res.status(404).json({
+        error: 'Fictitious name not found.',
+        meta: { provider: 'browser', attempts: result.attempts, duration, pool: getBrowserPoolStats() },
+      });
+    }
+
+    const owners = shouldResolveOwners ? await resolveOwners(req, record.owners) : record.owners;
+    const duration = Date.now() - startTime;
+    console.log(`[scrapeSunbizFictitiousName] Completed in ${duration}ms after ${result.attempts} attempts`);
+
+    return res.status(200).json({
+      ...record,
+      owners,
+      candidates,
+      meta: {
+        provider: 'browser',
+        attempts: result.attempts,
+        ownersResolved: shouldResolveOwners,
+        duration,
+        pool: getBrowserPoolStats(),
+      },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[scrapeSunbizFictitiousName] Unexpected error:', errorMessage);
+    return res.status(500).json({
+      error: `Unexpected error: ${errorMessage}`,
+      meta: { duration },
+    });
+  }
+}
+
+export default withResultCache(
+  {
+    source: 'sunbizFictitiousName',
+    query: req => {
+      const { fictitiousName, registrationNumber, resolveOwners } = req.body || {};
+      return fictitiousName || registrationNumber
+        ? { fictitiousName, registrationNumber, resolveOwners: resolveOwners === true || resolveOwners === 'true' }
+        : null;
+    },
+  },
+  handler
+);
@@ -1,281 +1,145 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import chromium from '@sparticuz/chromium';
-import puppeteer, { Page, Browser } from 'puppeteer-core';
-import { searchSunbizWithApify } from '@/utils/sunbizApify';
+import { SUNBIZ_SEARCH_TYPES, SunbizSearchType } from '@/utils/sunbizApify';
+import { getSunbizProviders, searchSunbiz, SUNBIZ_SEARCH_BASE_URL } from '@/utils/sunbiz';
+import { getBrowserPoolStats } from '@/utils/browser';
+import { withResultCache } from '@/utils/resultCache';
 
 // -------------------
 // Configuration
 // -------------------
-const MAX_ATTEMPTS = 2;
-const ATTEMPT_TIMEOUT = 90000; // Give Cloudflare's browser challenge time to clear.
-const BROWSER_LAUNCH_TIMEOUT = 15000;
-const MAX_RESULTS = 10;
-
-const USER_AGENTS = [
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
-  "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
-  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
-];
-
-const SUNBIZ_BY_NAME_URL = 'https://search.sunbiz.org/Inquiry/CorporationSearch/ByName';
-const SEARCH_RESULTS_SELECTOR = '#search-results tbody tr';
-const SEARCH_INPUT_SELECTOR = '#SearchTerm, input[name="SearchTerm"]';
+const DEFAULT_PAGE_SIZE = 5;
+const MAX_PAGE_SIZE = 50;
+const COLLECT_CAP = Number(process.env.SUNBIZ_SEARCH_COLLECT_CAP) || 100;
+
+// Decoded form of the opaque `cursor` / `nextCursor` values.
+type SearchCursor = {
+  provider: string;
+  searchType: SunbizSearchType;
+  searchTerm: string;
+  offset: number;
+  // Browser cursors resume from the Sunbiz results page they stopped on.
+  url?: string;
+};
 
 // -------------------
-// Browser Management
+// Helper Functions
 // -------------------
-async function launchBrowserWithTimeout(): Promise<Browser> {
-  return Promise.race([
-    puppeteer.launch({
-      args: [
-        ...chromium.args,
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--disable-blink-features=AutomationControlled',
-        '--lang=en-US,en',
-        '--window-size=1920,1080',
-      ],
-      executablePath: await chromium.executablePath(),
-      headless: "shell",
-    }),
-    new Promise<Browser>((_, reject) =>
-      setTimeout(() => reject(new Error('Browser launch timeout')), BROWSER_LAUNCH_TIMEOUT)
-    ),
-  ]);
-}
-
-async function configurePage(page: Page): Promise<void> {
-  const userAgent = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-  await page.setUserAgent(userAgent);
-  await page.setJavaScriptEnabled(true);
-  await page.setViewport({ width: 1920, height: 1080 });
-  await page.setExtraHTTPHeaders({
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-  });
-  // Mask webdriver detection
-  await page.evaluateOnNewDocument(() => {
-    Object.defineProperty(navigator, 'webdriver', { get: () => false });
-    Object.defineProperty(navigator, 'languages', { get: () => ['en-US', 'en'] });
-    Object.defineProperty(navigator, 'plugins', { get: () => [1, 2, 3, 4, 5] });
-  });
-}
-
-async function closeBrowserSafely(browser: Browser | null): Promise<void> {
-  if (browser) {
-    try {
-      await browser.close();
-    } catch (error) {
-      console.error('Error closing browser:', error);
-    }
-  }
-}
-
-// -------------------
-// Search Logic
-// -------------------
-async function getPageDiagnostics(page: Page): Promise<string> {
-  return page.evaluate(() => {
-    const bodyText = document.body?.innerText?.replace(/\s+/g, ' ').trim().slice(0, 220) || '';
-    return `url=${location.href}; title=${document.title}; body=${bodyText}`;
-  }).catch(error => `diagnostics unavailable: ${error instanceof Error ? error.message : String(error)}`);
-}
-
-async function waitForSunbizContent(page: Page): Promise<void> {
-  try {
-    await page.waitForSelector(`${SEARCH_RESULTS_SELECTOR}, ${SEARCH_INPUT_SELECTOR}`, { timeout: 45000 });
-  } catch {
-    const diagnostics = await getPageDiagnostics(page);
-    throw new Error(`Sunbiz did not expose search results or form after browser load. ${diagnostics}`);
-  }
+function parseSearchType(value: unknown): SunbizSearchType | null {
+  if (value === undefined || value === null || value === '') return 'EntityName';
+  return SUNBIZ_SEARCH_TYPES.find(type => type.toLowerCase() === String(value).toLowerCase()) || null;
 }
 
-async function readResultRows(page: Page) {
-  return page.$$eval(
-    SEARCH_RESULTS_SELECTOR,
-    (rows: HTMLTableRowElement[], max: number) => {
-      const parsed: { name: string; documentNumber: string; status: string; detailUrl: string }[] = [];
-      for (const row of rows.slice(0, max)) {
-        const nameCell = row.querySelector('td:first-child');
-        const docNumCell = row.querySelector('td:nth-child(2)');
-        const statusCell = row.querySelector('td:nth-child(3)');
-
-        const link = nameCell?.querySelector('a');
-        const name = link?.textContent?.trim() || '';
-        const documentNumber = docNumCell?.textContent?.trim() || '';
-        const status = statusCell?.textContent?.trim() || '';
-        const detailUrl = link?.getAttribute('href') || '';
-
-        if (name && documentNumber) {
-          parsed.push({ name, documentNumber, status, detailUrl });
-        }
-      }
-      return parsed;
-    },
-    MAX_RESULTS
-  );
+function clampNumber(value: unknown, fallback: number, max: number): number {
+  return Math.min(Math.max(Math.floor(Number(value)) || fallback, 1), max);
 }
 
-async function searchSunbiz(page: Page, companyName: string) {
-  const searchName = companyName.replace(/\//g, '');
-  const resultsUrl = `https://search.sunbiz.org/Inquiry/CorporationSearch/SearchResults/EntityName/${encodeURIComponent(searchName)}/Page1`;
-
-  await page.goto(resultsUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
-  await waitForSunbizContent(page);
-
-  let results = await readResultRows(page);
-  if (results.length > 0) return results;
-
-  await page.goto(SUNBIZ_BY_NAME_URL, { waitUntil: 'domcontentloaded', timeout: 60000 });
-  await waitForSunbizContent(page);
-
-  await page.type(SEARCH_INPUT_SELECTOR, searchName);
-  await page.click('input[type="submit"][value="Search Now"]');
-  await page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 60000 });
-  await waitForSunbizContent(page);
-
-  results = await readResultRows(page);
-  return results;
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
 }
 
-// -------------------
-// Single Attempt
-// -------------------
-async function attemptSearch(companyName: string) {
-  let browser: Browser | null = null;
-
+function decodeCursor(value: unknown): SearchCursor | null {
+  if (typeof value !== 'string' || !value) return null;
   try {
-    browser = await launchBrowserWithTimeout();
-    const page = await browser.newPage();
-    page.setDefaultTimeout(30000);
-    await configurePage(page);
-
-    const results = await searchSunbiz(page, companyName);
-    await closeBrowserSafely(browser);
-
-    return { success: true as const, data: results };
-  } catch (error) {
-    await closeBrowserSafely(browser);
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return { success: false as const, error: errorMessage };
-  }
-}
-
-// -------------------
-// Retry Logic
-// -------------------
-function isSunbizSecurityBlock(errorMessage: string): boolean {
-  return /just a moment|performing security verification|protect against malicious bots|did not expose search results or form/i.test(errorMessage);
-}
-
-async function searchWithRetry(companyName: string) {
-  const errors: string[] = [];
-
-  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    console.log(`[scrapeSunbizSearch] Attempt ${attempt}/${MAX_ATTEMPTS} for: ${companyName}`);
-
-    try {
-      const result = await Promise.race([
-        attemptSearch(companyName),
-        new Promise<{ success: false; error: string }>((_, reject) =>
-          setTimeout(() => reject(new Error('Attempt timeout')), ATTEMPT_TIMEOUT)
-        ),
-      ]);
-
-      if (result.success) {
-        console.log(`[scrapeSunbizSearch] Success on attempt ${attempt}, found ${result.data.length} results`);
-        return { success: true as const, data: result.data, attempts: attempt };
-      }
-
-      errors.push(`Attempt ${attempt}: ${result.error}`);
-      console.error(`[scrapeSunbizSearch] Attempt ${attempt} failed:`, result.error);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      errors.push(`Attempt ${attempt}: ${msg}`);
-      console.error(`[scrapeSunbizSearch] Attempt ${attempt} threw:`, msg);
-    }
-
-    // Brief delay before retry
-    if (attempt < MAX_ATTEMPTS) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const validUrl = cursor.url === undefined || String(cursor.url).startsWith(SUNBIZ_SEARCH_BASE_URL);
+    if (
+      getSunbizProviders().some(provider => provider.name === cursor.provider) &&
+      SUNBIZ_SEARCH_TYPES.includes(cursor.searchType) &&
+      typeof cursor.searchTerm === 'string' &&
+      Number.isInteger(cursor.offset) &&
+      cursor.offset >= 0 &&
+      validUrl
+    ) {
+      return cursor;
     }
+  } catch {
+    // Fall through to the invalid cursor response.
   }
-
-  const error = `All ${MAX_ATTEMPTS} attempts failed. ${errors.join(' | ')}`;
-  return {
-    success: false as const,
-    error,
-    blocked: errors.some(isSunbizSecurityBlock),
-    attempts: MAX_ATTEMPTS,
-  };
+  return null;
 }
 
 // -------------------
 // API Handler
 // -------------------
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader('Allow', ['POST']);
     return res.status(405).end(`Method ${req.method} Not Allowed`);
   }
 
   const { companyName, maxResults } = req.body;
-  if (!companyName) {
-    return res.status(400).json({ error: 'Company name is required.' });
+  const cursor = decodeCursor(req.body.cursor);
+  if (req.body.cursor && !cursor) {
+    return res.status(400).json({ error: 'Invalid cursor.' });
   }
 
-  console.log(`[scrapeSunbizSearch] Starting search for: ${companyName}`);
-  const startTime = Date.now();
-  const resultLimit = Math.min(Math.max(Number(maxResults) || 5, 1), 5);
+  const searchTerm = cursor?.searchTerm || req.body.searchTerm || companyName;
+  const searchType = cursor?.searchType || parseSearchType(req.body.searchType);
+  if (!searchType) {
+    return res.status(400).json({ error: `searchType must be one of: ${SUNBIZ_SEARCH_TYPES.join(', ')}.` });
+  }
+  if (!searchTerm) {
+    return res.status(400).json({
+      error: searchType === 'EntityName' ? 'Company name is required.' : 'Search term is required.',
+    });
+  }
 
-  try {
-    if (process.env.SUNBIZ_PROVIDER !== 'browser') {
-      try {
-        const results = await searchSunbizWithApify(companyName, resultLimit);
-        const duration = Date.now() - startTime;
-        console.log(`[scrapeSunbizSearch] Apify completed in ${duration}ms, found ${results.length} results`);
+  // collectAll gathers across pages up to the cap instead of returning one page.
+  const collectAll = req.body.collectAll === true || req.body.collectAll === 'true';
+  const limit = collectAll
+    ? clampNumber(req.body.maxTotal, COLLECT_CAP, COLLECT_CAP)
+    : clampNumber(maxResults, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const offset = cursor?.offset || 0;
 
-        return res.status(200).json({
-          results,
-          meta: {
-            provider: 'apify_parseforge',
-            attempts: 1,
-            duration,
-          },
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        console.warn('[scrapeSunbizSearch] Apify search failed, falling back to browser:', message);
-      }
-    }
+  console.log(`[scrapeSunbizSearch] Starting ${searchType} search for: ${searchTerm} (offset ${offset}, limit ${limit})`);
+  const startTime = Date.now();
 
-    const result = await searchWithRetry(companyName);
+  try {
+    // A cursor with a page URL can only be resumed by the provider that made it;
+    // an offset-only cursor can be picked up by any provider.
+    const routed = await searchSunbiz(
+      { searchTerm, searchType, start: { offset, url: cursor?.url }, limit },
+      { provider: cursor?.url ? cursor.provider : undefined }
+    );
     const duration = Date.now() - startTime;
-    console.log(`[scrapeSunbizSearch] Completed in ${duration}ms after ${result.attempts} attempts`);
+    const page = routed.value;
 
-    if (result.success) {
+    if (page) {
+      console.log(
+        `[scrapeSunbizSearch] ${routed.provider} completed in ${duration}ms, found ${page.results.length} results`
+      );
       return res.status(200).json({
-        results: result.data,
-        meta: { attempts: result.attempts, duration },
+        results: page.results,
+        nextCursor: page.next
+          ? encodeCursor({ provider: routed.provider as string, searchType, searchTerm, ...page.next })
+          : null,
+        meta: {
+          ...page.meta,
+          provider: routed.provider,
+          providers: routed.attempts,
+          searchType,
+          offset,
+          limit,
+          duration,
+        },
       });
-    } else if (result.blocked) {
+    } else if (routed.blocked) {
       return res.status(200).json({
         results: [],
-        error: result.error,
+        error: routed.error,
         meta: {
-          attempts: result.attempts,
+          searchType,
+          providers: routed.attempts,
           duration,
           blocked: true,
           reason: 'sunbiz_security_verification',
+          pool: getBrowserPoolStats(),
         },
       });
     } else {
       return res.status(500).json({
-        error: result.error,
-        meta: { attempts: result.attempts, duration },
+        error: routed.error || 'No Sunbiz provider is available for this search.',
+        meta: { providers: routed.attempts, duration, pool: getBrowserPoolStats() },
       });
     }
   } catch (error) {
@@ -288,3 +152,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withResultCache(
+  {
+    source: 'sunbizSearch',
+    query: req => {
+      const { companyName, searchTerm, searchType, maxResults, cursor, collectAll, maxTotal } = req.body || {};
+      const term = searchTerm || companyName;
+      // Cache keys normalize string case, so key on the decoded cursor rather than its base64 text.
+      const decoded = decodeCursor(cursor);
+      if (decoded) return { ...decoded, maxResults, collectAll, maxTotal };
+      return term ? { searchTerm: term, searchType: searchType || 'EntityName', maxResults, collectAll, maxTotal } : null;
+    },
+  },
+  handler
+);
@@ -1,27 +1,108 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import chromium from '@sparticuz/chromium';
-import puppeteer, { Page, Browser } from 'puppeteer-core';
+import { Page } from 'puppeteer-core';
+import { WORKERS_COMP_PROFILE, getBrowserPoolStats, withBrowser } from '@/utils/browser';
+import { getClassCodeDatasetInfo, lookupClassCode } from '@/utils/classCodes';
+import { toIsoDate } from '@/utils/dates';
+import { withResultCache } from '@/utils/resultCache';
+import { buildCoverageHistory } from '@/utils/workersCompHistory';
+import {
+  CoveragePolicy,
+  ExemptionRecord,
+  isCurrentlyExempt,
+  parseExemptionHtml,
+  parseProofOfCoverageHtml,
+  selectGoverningClassCode,
+} from '@/utils/workersCompParser';
 
 // -------------------
 // Configuration
 // -------------------
 const MAX_ATTEMPTS = 2; // 2 attempts to stay within Vercel's 5-minute (300s) limit
-const ATTEMPT_TIMEOUT = 120000; // 120 seconds per attempt (fits 3 scrapes: Proof of Coverage, Class Code, Exemption)
-const BROWSER_LAUNCH_TIMEOUT = 50000; // 50 seconds for browser launch
+const ATTEMPT_TIMEOUT = 120000; // 120 seconds per attempt (Exemption runs alongside Proof of Coverage + live Class Code fallback)
 const MIN_COMPANY_NAME_LENGTH = 3;
+const DEFAULT_HISTORY_YEARS = 3;
+const MAX_HISTORY_YEARS = 10;
+const MAX_JOB_DATES = 100;
 const PROOF_OF_COVERAGE_URL = 'https://dwcdataportal.fldfs.com/ProofOfCoverage.aspx';
 const EXEMPTION_URL = 'https://dwcdataportal.fldfs.com/Exemption.aspx';
 const INSURANCE_CLASS_CODE_BASE_URL = 'https://www.insurancexdate.com/classreport.php';
 
+// DWC search form fields, most specific first. Both portals share the employer name field IDs.
+const SEARCH_FIELD_SELECTORS: Record<SearchField, string[]> = {
+  fein: [
+    '#ContentPlaceHolder1_txtFEIN',
+    'input[name*="FEIN"]',
+    'input[type="text"][id*="FEIN"]',
+    'input[type="text"][id*="Fein"]'
+  ],
+  policyNumber: [
+    '#ContentPlaceHolder1_txtPolicyNumber',
+    'input[name*="PolicyNumber"]',
+    'input[name*="PolicyNo"]',
+    'input[type="text"][id*="Policy"]'
+  ],
+  employerName: [
+    '#ContentPlaceHolder1_txtEmployerName',
+    'input[name*="EmployerName"]',
+    'input[name*="Employer"]',
+    'input[type="text"][id*="Employer"]',
+    'input[type="text"][name*="txt"]'
+  ],
+};
+
+// Proof of Coverage defaults to policies currently in effect; these switch it to all policies on file.
+const HISTORY_OPTION_SELECTORS = [
+  '#ContentPlaceHolder1_rbAllPolicies',
+  'input[type="radio"][id*="All"]',
+  'input[type="radio"][value*="All"]',
+  'input[type="checkbox"][id*="History"]',
+  'input[type="checkbox"][id*="Expired"]'
+];
+
+const STEP_LABELS: Record<ScrapeStepName, string> = {
+  proofOfCoverage: 'Proof of Coverage',
+  exemption: 'Exemption',
+  classCode: 'Class Code Details',
+};
+
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  fein: 'FEIN',
+  policyNumber: 'policy number',
+  employerName: 'employer name',
+};
+
 // -------------------
 // Type Definitions
 // -------------------
+type SearchField = 'fein' | 'policyNumber' | 'employerName';
+
+interface WorkersCompSearch {
+  by: SearchField;
+  value: string;
+}
+
+/**
+ * What to type into each portal. The Exemption portal has no policy number
+ * field, so a policy number search only looks up exemptions when a name or
+ * FEIN is also known.
+ */
+interface SearchPlan {
+  coverage: WorkersCompSearch;
+  exemption: WorkersCompSearch | null;
+  // Ask the Proof of Coverage portal for past policies too.
+  includeHistory: boolean;
+}
+
 interface ClassCodeDetails {
   classCode: string;
   industry: string;
   phraseology: string;
   description: string;
   category: string;
+  // Only known for codes in the reference table.
+  construction: boolean | null;
+  source: 'reference' | 'insurancexdate';
+  datasetVersion?: string;
 }
 
 interface WorkersCompData {
@@ -38,23 +119,44 @@ interface WorkersCompData {
   };
 }
 
+interface ProofOfCoverageResult {
+  policies: CoveragePolicy[];
+  message?: string;
+  // Set when history was requested: whether the portal's all-policies option was found and selected.
+  historyIncluded?: boolean;
+  // Raw grid HTML; only returned to callers that ask for `debug`.
+  tbody?: string;
+}
+
+interface ExemptionResult {
+  records: ExemptionRecord[];
+  isCurrentlyExempt: boolean;
+  message?: string;
+  // Raw grid HTML; only returned to callers that ask for `debug`.
+  tbody?: string;
+}
+
 interface ScrapeResult {
   success: boolean;
   data?: {
-    proofOfCoverage?: {
-      tbody?: string;
-      message?: string;
-    };
-    exemption?: {
-      tbody?: string;
-      message?: string;
-    };
+    proofOfCoverage?: ProofOfCoverageResult;
+    exemption?: ExemptionResult;
     classCodeDetails?: ClassCodeDetails | null;
   };
   error?: string;
   partialSuccess?: boolean;
 }
 
+type ScrapeStepName = 'proofOfCoverage' | 'exemption' | 'classCode';
+
+interface ScrapeStepTiming {
+  status: 'success' | 'failed' | 'skipped';
+  durationMs: number;
+  error?: string;
+}
+
+type ScrapeSteps = Partial<Record<ScrapeStepName, ScrapeStepTiming>>;
+
 // -------------------
 // Helper Functions
 // -------------------
@@ -158,87 +260,28 @@ async function extractExemptionResults(page: Page): Promise<{ tbody?: string; me
 }
 
 /**
- * Extract the Governing Class Code from the Proof of Coverage tbody HTML
+ * Class code details from the bundled reference table, or null when the code
+ * isn't in it.
  */
-function extractGoverningClassCode(tbodyHTML: string): string | null {
-  try {
-    console.log('[WORKERS_COMP] Attempting to extract Governing Class Code from tbody HTML');
-
-    // First, try to find the "Governing Class Code" header and get its column index
-    const headerMatch = tbodyHTML.match(/<th[^>]*>([^<]*Governing Class Code[^<]*)<\/th>/i);
-
-    if (headerMatch) {
-      console.log('[WORKERS_COMP] Found "Governing Class Code" header in tbody');
-
-      // Split tbody into rows
-      const rows = tbodyHTML.split(/<\/?tr[^>]*>/i).filter(row => row.trim());
-
-      if (rows.length >= 2) {
-        const headerRow = rows[0];
-        const dataRow = rows[1];
-
-        // Find all th elements in header row
-        const thMatches = headerRow.match(/<th[^>]*>.*?<\/th>/gi);
-        if (thMatches) {
-          // Find the index of "Governing Class Code" header
-          const govClassIndex = thMatches.findIndex(th => th.includes('Governing Class Code'));
-
-          if (govClassIndex !== -1) {
-            console.log('[WORKERS_COMP] Governing Class Code is at column index:', govClassIndex);
-
-            // Find all td elements in data row
-            const tdMatches = dataRow.match(/<td[^>]*>[\s\S]*?<\/td>/gi);
-            if (tdMatches && tdMatches[govClassIndex]) {
-              // Extract the span content from the corresponding td
-              const spanMatch = tdMatches[govClassIndex].match(/<span[^>]*>([^<]+)<\/span>/);
-              if (spanMatch && spanMatch[1]) {
-                const classCode = spanMatch[1].trim();
-                console.log('[WORKERS_COMP] ✓ Found Governing Class Code:', classCode);
-                return classCode;
-              }
-            }
-          }
-        }
-      }
-    }
-
-    // Fallback 1: Look specifically for Label9_0 (typically the Governing Class Code column)
-    const label9Match = tbodyHTML.match(/<span[^>]*id="ContentPlaceHolder1_DataGrid_POC_Label9_0"[^>]*>([^<]+)<\/span>/);
-    if (label9Match && label9Match[1]) {
-      const classCode = label9Match[1].trim();
-      // Verify it looks like a class code (5 digits)
-      if (/^\d{5}$/.test(classCode)) {
-        console.log('[WORKERS_COMP] ✓ Found Governing Class Code via Label9_0:', classCode);
-        return classCode;
-      }
-    }
-
-    // Fallback 2: Look for any 5-digit number in a span (less reliable)
-    const digitMatches = tbodyHTML.match(/<span[^>]*>(\d{5})<\/span>/g);
-    if (digitMatches && digitMatches.length > 0) {
-      // Find spans that could be class codes (5 digits only, not dates or policy numbers)
-      for (const match of digitMatches) {
-        const digitMatch = match.match(/>(\d{5})</);
-        if (digitMatch && digitMatch[1]) {
-          const classCode = digitMatch[1].trim();
-          // Additional validation: class codes typically start with 0-9
-          console.log('[WORKERS_COMP] ✓ Found potential Governing Class Code (fallback):', classCode);
-          return classCode;
-        }
-      }
-    }
+function referenceClassCodeDetails(classCode: string): ClassCodeDetails | null {
+  const entry = lookupClassCode(classCode);
+  if (!entry) return null;
 
-    console.log('[WORKERS_COMP] ✗ No Governing Class Code found in tbody HTML');
-    console.log('[WORKERS_COMP] Debug: tbody preview:', tbodyHTML.substring(0, 500));
-    return null;
-  } catch (error) {
-    console.error('[WORKERS_COMP] ✗ Error extracting Governing Class Code:', error);
-    return null;
-  }
+  return {
+    classCode: entry.code,
+    industry: entry.industryGroup,
+    phraseology: entry.phraseology,
+    description: entry.description,
+    category: entry.category,
+    construction: entry.construction,
+    source: 'reference',
+    datasetVersion: getClassCodeDatasetInfo().version,
+  };
 }
 
 /**
- * Scrape class code details from insurancexdate.com
+ * Scrape class code details from insurancexdate.com. Only used for codes
+ * missing from the reference table.
  */
 async function scrapeClassCodeDetails(
   page: Page,
@@ -341,7 +384,7 @@ async function scrapeClassCodeDetails(
     console.log('[WORKERS_COMP] ✓ Successfully extracted class code details');
     console.log('[WORKERS_COMP] Details:', JSON.stringify(details, null, 2));
     console.log('[WORKERS_COMP] ═══ Class code scrape complete ═══');
-    return details;
+    return { ...details, construction: null, source: 'insurancexdate' };
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -392,60 +435,52 @@ function generateNameVariations(trimmedName: string): string[] {
   return variations;
 }
 
-function hasActualData(result: { success: boolean; data?: any }): boolean {
-  return !!(result.data?.proofOfCoverage?.tbody || result.data?.exemption?.tbody);
+/** FEINs are compared and searched as their nine digits. */
+function normalizeFein(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/\D/g, '') : '';
 }
 
-// -------------------
-// Browser Management
-// -------------------
-async function launchBrowserWithTimeout(): Promise<Browser> {
-  return Promise.race([
-    puppeteer.launch({
-      args: chromium.args,
-      defaultViewport: { width: 1920, height: 1080 },
-      executablePath: await chromium.executablePath(),
-      headless: "shell",
-    }),
-    new Promise<Browser>((_, reject) =>
-      setTimeout(() => reject(new Error('Browser launch timeout')), BROWSER_LAUNCH_TIMEOUT)
-    ),
-  ]);
+function describeSearch(search: WorkersCompSearch): string {
+  return `${SEARCH_FIELD_LABELS[search.by]} "${search.value}"`;
 }
 
-async function closeBrowserSafely(browser: Browser | null): Promise<void> {
-  if (browser) {
-    try {
-      await browser.close();
-    } catch (error) {
-      console.error('[WORKERS_COMP] Error closing browser:', error);
-    }
+/**
+ * Exact searches first: a FEIN or policy number identifies the employer, so
+ * name variations are only tried when neither is known.
+ */
+function buildSearchPlans(fein: string, policyNumber: string, companyName: string, includeHistory: boolean): SearchPlan[] {
+  const nameVariations = companyName ? generateNameVariations(companyName) : [];
+  const nameSearch = (value: string): WorkersCompSearch => ({ by: 'employerName', value });
+
+  if (fein) {
+    const search: WorkersCompSearch = { by: 'fein', value: fein };
+    return [{ coverage: search, exemption: search, includeHistory }];
   }
-}
 
-// -------------------
-// Scraping Functions
-// -------------------
+  if (policyNumber) {
+    return [
+      {
+        coverage: { by: 'policyNumber', value: policyNumber },
+        exemption: nameVariations.length ? nameSearch(nameVariations[0]) : null,
+        includeHistory,
+      },
+    ];
+  }
+
+  return nameVariations.map(variation => ({
+    coverage: nameSearch(variation),
+    exemption: nameSearch(variation),
+    includeHistory,
+  }));
+}
 
 /**
- * Scrape Proof of Coverage data
+ * Type the search value into the matching DWC form field and submit.
  */
-async function scrapeProofOfCoverage(page: Page, companyName: string): Promise<{ tbody?: string; message?: string }> {
-  console.log('[WORKERS_COMP] Starting Proof of Coverage scrape');
-
-  // Navigate to form
-  await page.goto(PROOF_OF_COVERAGE_URL, { waitUntil: 'networkidle2', timeout: 30000 });
-
-  // Find and fill employer name field
-  const employerNameSelectors = [
-    '#ContentPlaceHolder1_txtEmployerName',
-    'input[name*="EmployerName"]',
-    'input[name*="Employer"]',
-    'input[type="text"][id*="Employer"]',
-    'input[type="text"][name*="txt"]'
-  ];
-  const employerFieldSelector = await findSelector(page, employerNameSelectors, 'employer name field');
-  await page.type(employerFieldSelector, companyName, { delay: 50 });
+async function submitSearch(page: Page, search: WorkersCompSearch): Promise<void> {
+  const label = SEARCH_FIELD_LABELS[search.by];
+  const fieldSelector = await findSelector(page, SEARCH_FIELD_SELECTORS[search.by], `${label} field`);
+  await page.type(fieldSelector, search.value, { delay: 50 });
 
   // Find and click search button
   const searchButtonSelectors = [
@@ -457,6 +492,79 @@ async function scrapeProofOfCoverage(page: Page, companyName: string): Promise<{
   ];
   const searchButtonSelector = await findSelector(page, searchButtonSelectors, 'search button');
   await page.click(searchButtonSelector);
+}
+
+/**
+ * Switch the Proof of Coverage form to show past policies. Best effort: when
+ * the option isn't found the search still runs for current policies.
+ */
+async function selectHistoryOption(page: Page): Promise<boolean> {
+  try {
+    const selector = await findSelector(page, HISTORY_OPTION_SELECTORS, 'all policies option');
+    await page.click(selector);
+    return true;
+  } catch (error) {
+    console.warn('[WORKERS_COMP] Could not select past policies, searching current coverage only:', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+/**
+ * Read `historyYears` and `jobDates` from the request body. Either one turns
+ * on history mode; an error string means the input was invalid.
+ */
+function parseHistoryOptions(body: any): { years: number; jobDates: string[] } | null | string {
+  const { historyYears, jobDates } = body;
+  if (historyYears === undefined && jobDates === undefined) return null;
+
+  const years = historyYears === undefined ? DEFAULT_HISTORY_YEARS : Number(historyYears);
+  if (!Number.isInteger(years) || years < 1 || years > MAX_HISTORY_YEARS) {
+    return `historyYears must be a whole number from 1 to ${MAX_HISTORY_YEARS}`;
+  }
+
+  if (jobDates !== undefined && (!Array.isArray(jobDates) || jobDates.length > MAX_JOB_DATES)) {
+    return `jobDates must be an array of at most ${MAX_JOB_DATES} dates`;
+  }
+
+  const dates = (jobDates || []).map((date: unknown) => toIsoDate(date));
+  if (dates.some((date: string) => !date)) {
+    return 'jobDates must be YYYY-MM-DD or MM/DD/YYYY dates';
+  }
+
+  return { years, jobDates: dates };
+}
+
+function hasActualData(result: { success: boolean; data?: any }): boolean {
+  return !!(result.data?.proofOfCoverage?.policies?.length || result.data?.exemption?.records?.length);
+}
+
+/**
+ * Drop the raw grid HTML from a scrape result unless the caller asked for it.
+ */
+function withoutRawHtml<T extends { tbody?: string }>(result: T | undefined, debug: boolean): T | undefined {
+  if (!result || debug) return result;
+  const { tbody: _tbody, ...rest } = result;
+  return rest as T;
+}
+
+// -------------------
+// Scraping Functions
+// -------------------
+
+/**
+ * Scrape Proof of Coverage data
+ */
+async function scrapeProofOfCoverage(
+  page: Page,
+  search: WorkersCompSearch,
+  includeHistory: boolean
+): Promise<ProofOfCoverageResult> {
+  console.log(`[WORKERS_COMP] Starting Proof of Coverage scrape by ${describeSearch(search)}`);
+
+  // Navigate to form and search
+  await page.goto(PROOF_OF_COVERAGE_URL, { waitUntil: 'networkidle2', timeout: 30000 });
+  const historyIncluded = includeHistory ? await selectHistoryOption(page) : undefined;
+  await submitSearch(page, search);
 
   // Wait for results
   await Promise.race([
@@ -470,40 +578,26 @@ async function scrapeProofOfCoverage(page: Page, companyName: string): Promise<{
   // Wait for AJAX/UpdatePanel
   await new Promise(resolve => setTimeout(resolve, 2000));
 
-  // Extract results using existing extractResults() function
-  return await extractResults(page);
+  // Extract the grid, then parse it into policy records
+  const { tbody, message } = await extractResults(page);
+  if (!tbody) {
+    return { policies: [], message, historyIncluded };
+  }
+
+  const policies = parseProofOfCoverageHtml(tbody);
+  console.log(`[WORKERS_COMP] Parsed ${policies.length} Proof of Coverage record(s)`);
+  return { policies, historyIncluded, tbody };
 }
 
 /**
  * Scrape Exemption data
  */
-async function scrapeExemption(page: Page, companyName: string): Promise<{ tbody?: string; message?: string }> {
-  console.log('[WORKERS_COMP] Starting Exemption scrape');
+async function scrapeExemption(page: Page, search: WorkersCompSearch): Promise<ExemptionResult> {
+  console.log(`[WORKERS_COMP] Starting Exemption scrape by ${describeSearch(search)}`);
 
-  // Navigate to exemption form
+  // Navigate to exemption form and search
   await page.goto(EXEMPTION_URL, { waitUntil: 'networkidle2', timeout: 30000 });
-
-  // Find and fill employer name field (same selectors as Proof of Coverage)
-  const employerNameSelectors = [
-    '#ContentPlaceHolder1_txtEmployerName',
-    'input[name*="EmployerName"]',
-    'input[name*="Employer"]',
-    'input[type="text"][id*="Employer"]',
-    'input[type="text"][name*="txt"]'
-  ];
-  const employerFieldSelector = await findSelector(page, employerNameSelectors, 'employer name field');
-  await page.type(employerFieldSelector, companyName, { delay: 50 });
-
-  // Find and click search button
-  const searchButtonSelectors = [
-    '#ContentPlaceHolder1_btnSearch',
-    'input[type="submit"][value*="Search"]',
-    'button[id*="Search"]',
-    'input[name*="btnSearch"]',
-    'input[type="submit"][id*="btn"]'
-  ];
-  const searchButtonSelector = await findSelector(page, searchButtonSelectors, 'search button');
-  await page.click(searchButtonSelector);
+  await submitSearch(page, search);
 
   // Wait for results
   await Promise.race([
@@ -517,117 +611,131 @@ async function scrapeExemption(page: Page, companyName: string): Promise<{ tbody
   // Wait for AJAX/UpdatePanel
   await new Promise(resolve => setTimeout(resolve, 2000));
 
-  // Extract exemption results
-  return await extractExemptionResults(page);
+  // Extract the grid, then parse it into exemption records
+  const { tbody, message } = await extractExemptionResults(page);
+  if (!tbody) {
+    return { records: [], isCurrentlyExempt: false, message };
+  }
+
+  const records = parseExemptionHtml(tbody);
+  console.log(`[WORKERS_COMP] Parsed ${records.length} exemption record(s)`);
+  return { records, isCurrentlyExempt: isCurrentlyExempt(records), tbody };
 }
 
 // -------------------
 // Single Attempt Logic
 // -------------------
-async function attemptScrape(companyName: string): Promise<ScrapeResult> {
-  let browser: Browser | null = null;
 
+/**
+ * Run one step of an attempt, recording its timing and outcome in `steps`.
+ * Returns undefined when the step fails so the other steps can still finish.
+ */
+async function runStep<T>(steps: ScrapeSteps, name: ScrapeStepName, fn: () => Promise<T>): Promise<T | undefined> {
+  const startTime = Date.now();
   try {
-    // Launch browser once
-    console.log('[WORKERS_COMP] Launching browser...');
-    browser = await launchBrowserWithTimeout();
-    const page = await browser.newPage();
-    page.setDefaultTimeout(30000);
+    const value = await fn();
+    steps[name] = { status: 'success', durationMs: Date.now() - startTime };
+    console.log(`[WORKERS_COMP] ✓ ${STEP_LABELS[name]} finished in ${steps[name]?.durationMs}ms`);
+    return value;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    steps[name] = { status: 'failed', durationMs: Date.now() - startTime, error: errorMessage };
+    console.error(`[WORKERS_COMP] ✗ ${STEP_LABELS[name]} failed:`, errorMessage);
+    return undefined;
+  }
+}
 
-    // Initialize result containers
-    let proofOfCoverageResult: { tbody?: string; message?: string } | undefined = undefined;
-    let exemptionResult: { tbody?: string; message?: string } | undefined = undefined;
-    let classCodeDetails: ClassCodeDetails | null = null;
-    const errors: string[] = [];
+/**
+ * Reference table first; the live scrape reuses the Proof of Coverage page.
+ */
+async function resolveClassCodeDetails(page: Page, classCode: string): Promise<ClassCodeDetails | null> {
+  const reference = referenceClassCodeDetails(classCode);
+  if (reference) {
+    console.log('[WORKERS_COMP] ✓ Class code found in reference table');
+    return reference;
+  }
 
-    // Scrape Proof of Coverage (sequential, not parallel)
-    try {
-      proofOfCoverageResult = await scrapeProofOfCoverage(page, companyName);
-      console.log('[WORKERS_COMP] Proof of Coverage scrape completed successfully');
-
-      // If Proof of Coverage has data (not a message), try to extract and scrape class code
-      if (proofOfCoverageResult && proofOfCoverageResult.tbody) {
-        console.log('[WORKERS_COMP] ─── Proof of Coverage has data, attempting class code extraction ───');
-        try {
-          const classCode = extractGoverningClassCode(proofOfCoverageResult.tbody);
-          if (classCode) {
-            console.log('[WORKERS_COMP] ✓ Successfully extracted class code:', classCode);
-            console.log('[WORKERS_COMP] ─── Beginning class code details scrape ───');
-            classCodeDetails = await scrapeClassCodeDetails(page, classCode);
-            if (classCodeDetails) {
-              console.log('[WORKERS_COMP] ✓ Class code details scrape completed successfully');
-            } else {
-              console.log('[WORKERS_COMP] ✗ Class code details scrape returned null');
-            }
-          } else {
-            console.log('[WORKERS_COMP] ✗ Could not extract class code from Proof of Coverage tbody');
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          console.error('[WORKERS_COMP] ✗ Class code details scrape failed:', errorMessage);
-          errors.push(`Class Code Details: ${errorMessage}`);
-          // Don't fail the entire request if class code scraping fails
+  console.log('[WORKERS_COMP] ─── Class code not in reference table, beginning live scrape ───');
+  return scrapeClassCodeDetails(page, classCode);
+}
+
+/**
+ * One attempt. Step timings are written to `steps` as they finish, so the
+ * caller still sees them if the attempt times out.
+ */
+async function attemptScrape(plan: SearchPlan, steps: ScrapeSteps): Promise<ScrapeResult> {
+  try {
+    // Launch browser once; each portal gets its own page in the same context
+    console.log('[WORKERS_COMP] Launching browser...');
+    return await withBrowser(WORKERS_COMP_PROFILE, async session => {
+      // Proof of Coverage, then the class code lookup it feeds, on one page
+      const coverageTask = (async () => {
+        let page: Page | null = null;
+        const proofOfCoverage = await runStep(steps, 'proofOfCoverage', async () => {
+          page = await session.newPage();
+          return scrapeProofOfCoverage(page, plan.coverage, plan.includeHistory);
+        });
+
+        const classCode = proofOfCoverage ? selectGoverningClassCode(proofOfCoverage.policies) : null;
+        if (!page || !classCode) {
+          console.log('[WORKERS_COMP] ⊘ Skipping class code lookup (no governing class code on the Proof of Coverage records)');
+          steps.classCode = { status: 'skipped', durationMs: 0 };
+          return { proofOfCoverage, classCodeDetails: null };
         }
-      } else {
-        console.log('[WORKERS_COMP] ⊘ Skipping class code extraction (no tbody data in Proof of Coverage)');
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('[WORKERS_COMP] Proof of Coverage scrape failed:', errorMessage);
-      errors.push(`Proof of Coverage: ${errorMessage}`);
-    }
 
-    // Scrape Exemption
-    try {
-      exemptionResult = await scrapeExemption(page, companyName);
-      console.log('[WORKERS_COMP] Exemption scrape completed successfully');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error('[WORKERS_COMP] Exemption scrape failed:', errorMessage);
-      errors.push(`Exemption: ${errorMessage}`);
-    }
+        const coveragePage: Page = page;
+        console.log('[WORKERS_COMP] ✓ Successfully extracted class code:', classCode);
+        const classCodeDetails = await runStep(steps, 'classCode', () => resolveClassCodeDetails(coveragePage, classCode));
+        return { proofOfCoverage, classCodeDetails: classCodeDetails || null };
+      })();
+
+      // Exemption, concurrently on a second page
+      const exemptionTask = (async (): Promise<ExemptionResult | undefined> => {
+        const exemptionSearch = plan.exemption;
+        if (!exemptionSearch) {
+          console.log('[WORKERS_COMP] ⊘ Skipping Exemption scrape (no FEIN or employer name to search by)');
+          steps.exemption = { status: 'skipped', durationMs: 0 };
+          return {
+            records: [],
+            isCurrentlyExempt: false,
+            message: 'Not searched: exemptions can only be looked up by FEIN or employer name'
+          };
+        }
 
-    await closeBrowserSafely(browser);
+        return runStep(steps, 'exemption', async () => scrapeExemption(await session.newPage(), exemptionSearch));
+      })();
 
-    // Determine success status
-    const hasProofData = proofOfCoverageResult !== undefined;
-    const hasExemptionData = exemptionResult !== undefined;
+      const [{ proofOfCoverage, classCodeDetails }, exemption] = await Promise.all([coverageTask, exemptionTask]);
 
-    if (!hasProofData && !hasExemptionData) {
-      // Both primary scrapes failed
-      return {
-        success: false,
-        error: `Both scrapes failed. Errors: ${errors.join(' | ')}`
-      };
-    }
+      const errors = (Object.keys(steps) as ScrapeStepName[])
+        .filter(name => steps[name]?.status === 'failed')
+        .map(name => `${STEP_LABELS[name]}: ${steps[name]?.error}`);
+
+      // Determine success status
+      const hasProofData = proofOfCoverage !== undefined;
+      const hasExemptionData = exemption !== undefined;
+
+      if (!hasProofData && !hasExemptionData) {
+        // Both primary scrapes failed
+        return {
+          success: false,
+          error: `Both scrapes failed. Errors: ${errors.join(' | ')}`
+        };
+      }
 
-    if (hasProofData && hasExemptionData) {
-      // Both primary scrapes succeeded
       return {
         success: true,
         data: {
-          proofOfCoverage: proofOfCoverageResult,
-          exemption: exemptionResult,
-          classCodeDetails: classCodeDetails || null
+          proofOfCoverage,
+          exemption,
+          classCodeDetails
         },
-        partialSuccess: errors.length > 0 // Set partial if class code failed but others succeeded
+        // Partial if a primary scrape failed, or both succeeded but the class code lookup did not
+        partialSuccess: !hasProofData || !hasExemptionData || errors.length > 0,
+        error: errors.length > 0 ? `Partial success. Errors: ${errors.join(' | ')}` : undefined
       };
-    }
-
-    // Partial success - at least one primary scrape succeeded
-    return {
-      success: true,
-      partialSuccess: true,
-      data: {
-        proofOfCoverage: proofOfCoverageResult,
-        exemption: exemptionResult,
-        classCodeDetails: classCodeDetails || null
-      },
-      error: errors.length > 0 ? `Partial success. Errors: ${errors.join(' | ')}` : undefined
-    };
-
+    });
   } catch (error) {
-    await closeBrowserSafely(browser);
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('[WORKERS_COMP] Attempt failed:', errorMessage);
     return {
@@ -640,22 +748,25 @@ async function attemptScrape(companyName: string): Promise<ScrapeResult> {
 // -------------------
 // Retry Logic with Timeout
 // -------------------
-async function scrapeWithRetry(companyName: string): Promise<{
+async function scrapeWithRetry(plan: SearchPlan): Promise<{
   success: boolean;
   data?: any;
   error?: string;
   attempts: number;
   partialSuccess?: boolean;
+  steps: ScrapeSteps;
 }> {
   const errors: string[] = [];
+  let steps: ScrapeSteps = {};
 
   for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
-    console.log(`[WORKERS_COMP] Attempt ${attempt}/${MAX_ATTEMPTS} for: "${companyName}"`);
+    console.log(`[WORKERS_COMP] Attempt ${attempt}/${MAX_ATTEMPTS} for ${describeSearch(plan.coverage)}`);
+    steps = {};
 
     try {
       // Wrap each attempt in a timeout
       const result: ScrapeResult = await Promise.race([
-        attemptScrape(companyName),
+        attemptScrape(plan, steps),
         new Promise<ScrapeResult>((_, reject) =>
           setTimeout(() => reject(new Error('Attempt timeout')), ATTEMPT_TIMEOUT)
         ),
@@ -667,7 +778,8 @@ async function scrapeWithRetry(companyName: string): Promise<{
           success: true,
           data: result.data,
           attempts: attempt,
-          partialSuccess: result.partialSuccess
+          partialSuccess: result.partialSuccess,
+          steps
         };
       }
 
@@ -699,14 +811,15 @@ async function scrapeWithRetry(companyName: string): Promise<{
   return {
     success: false,
     error: `All ${MAX_ATTEMPTS} attempts failed. Errors: ${errors.join(' | ')}`,
-    attempts: MAX_ATTEMPTS
+    attempts: MAX_ATTEMPTS,
+    steps
   };
 }
 
 // -------------------
 // API Handler
 // -------------------
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Add CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
@@ -727,28 +840,51 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   // Validate input
-  const { companyName } = req.body;
+  const { companyName, fein, policyNumber } = req.body;
+  const debug = req.body.debug === true || req.body.debug === 'true';
 
-  if (!companyName) {
+  if (!companyName && !fein && !policyNumber) {
     return res.status(400).json({
       success: false,
-      error: 'Company name is required'
+      error: 'Company name, FEIN or policy number is required'
     });
   }
 
-  if (typeof companyName !== 'string') {
+  if (
+    (companyName !== undefined && typeof companyName !== 'string') ||
+    (fein !== undefined && typeof fein !== 'string') ||
+    (policyNumber !== undefined && typeof policyNumber !== 'string')
+  ) {
     return res.status(400).json({
       success: false,
-      error: 'Company name must be a string'
+      error: 'Company name, FEIN and policy number must be strings'
     });
   }
 
-  const trimmedCompanyName = companyName.trim();
+  const normalizedFein = normalizeFein(fein);
+  if (fein && normalizedFein.length !== 9) {
+    return res.status(400).json({
+      success: false,
+      error: 'FEIN must have 9 digits'
+    });
+  }
+
+  const history = parseHistoryOptions(req.body);
+  if (typeof history === 'string') {
+    return res.status(400).json({
+      success: false,
+      error: history
+    });
+  }
+
+  const trimmedPolicyNumber = (policyNumber || '').trim();
+  const trimmedCompanyName = (companyName || '').trim();
 
   // Remove all punctuation from company name (commas, periods, apostrophes, etc.)
   const sanitizedCompanyName = trimmedCompanyName.replace(/[.,\/#!$%\^\*;:{}=\-_`~()'"@+?\\[\]]/g, '').replace(/\s+/g, ' ').trim();
 
-  if (sanitizedCompanyName.length < MIN_COMPANY_NAME_LENGTH) {
+  // The name is only searched when there is no FEIN or policy number, but it is still validated when given
+  if (trimmedCompanyName && sanitizedCompanyName.length < MIN_COMPANY_NAME_LENGTH) {
     return res.status(400).json({
       success: false,
       error: `Company name must be at least ${MIN_COMPANY_NAME_LENGTH} characters`
@@ -760,50 +896,70 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     console.log(`[WORKERS_COMP] Sanitized company name: "${sanitizedCompanyName}"`);
   }
 
-  console.log(`[WORKERS_COMP] Starting scrape request for: "${sanitizedCompanyName}"`);
+  const searchPlans = buildSearchPlans(normalizedFein, trimmedPolicyNumber, trimmedCompanyName, Boolean(history));
+  console.log(`[WORKERS_COMP] Starting scrape request by ${describeSearch(searchPlans[0].coverage)}`);
   const startTime = Date.now();
 
   try {
-    // Generate variations and try each one
-    const nameVariations = generateNameVariations(trimmedCompanyName);
-    console.log(`[WORKERS_COMP] Will try ${nameVariations.length} name variation(s):`, nameVariations);
+    // Exact searches yield a single plan; name searches try each variation
+    console.log(`[WORKERS_COMP] Will try ${searchPlans.length} search(es):`, searchPlans.map(plan => plan.coverage.value));
 
     let result: Awaited<ReturnType<typeof scrapeWithRetry>> | null = null;
-    for (let i = 0; i < nameVariations.length; i++) {
-      const variation = nameVariations[i];
-      console.log(`[WORKERS_COMP] Trying variation ${i + 1}/${nameVariations.length}: "${variation}"`);
-      result = await scrapeWithRetry(variation);
+    let search: WorkersCompSearch | null = null;
+    for (let i = 0; i < searchPlans.length; i++) {
+      const plan = searchPlans[i];
+      search = plan.coverage;
+      console.log(`[WORKERS_COMP] Trying search ${i + 1}/${searchPlans.length}: ${describeSearch(plan.coverage)}`);
+      result = await scrapeWithRetry(plan);
       if (result.success && hasActualData(result)) {
-        console.log(`[WORKERS_COMP] Found actual data with variation ${i + 1}: "${variation}"`);
+        console.log(`[WORKERS_COMP] Found actual data with search ${i + 1}: ${describeSearch(plan.coverage)}`);
         break;
       }
-      console.log(`[WORKERS_COMP] No actual data with variation ${i + 1}, trying next...`);
+      console.log(`[WORKERS_COMP] No actual data with search ${i + 1}, trying next...`);
     }
 
     if (!result) {
-      return res.status(500).json({ success: false, error: 'No name variations to try' });
+      return res.status(500).json({ success: false, error: 'No searches to try' });
     }
 
     const duration = Date.now() - startTime;
     console.log(`[WORKERS_COMP] Request completed in ${duration}ms after ${result.attempts} attempts`);
 
     if (result.success) {
+      const proofOfCoverage: ProofOfCoverageResult | undefined = result.data?.proofOfCoverage;
       const responseData: any = {
         success: true,
         data: {
-          proofOfCoverage: result.data?.proofOfCoverage,
-          exemption: result.data?.exemption,
+          proofOfCoverage: withoutRawHtml<ProofOfCoverageResult>(proofOfCoverage, debug),
+          exemption: withoutRawHtml<ExemptionResult>(result.data?.exemption, debug),
           classCodeDetails: result.data?.classCodeDetails || null,
-          companyName: sanitizedCompanyName
+          companyName: sanitizedCompanyName || undefined,
+          search
         },
         meta: {
           duration,
-          attempts: result.attempts
+          attempts: result.attempts,
+          steps: result.steps,
+          pool: getBrowserPoolStats()
         }
       };
 
+      // Gap and job-date verdicts are only given when past policies were listed too
+      if (history && proofOfCoverage) {
+        const today = new Date();
+        const from = new Date(today);
+        from.setUTCFullYear(today.getUTCFullYear() - history.years);
+        responseData.data.coverageHistory = buildCoverageHistory(proofOfCoverage.policies, {
+          from: from.toISOString().slice(0, 10),
+          to: today.toISOString().slice(0, 10),
+          jobDates: history.jobDates,
+          includesPastPolicies: proofOfCoverage.historyIncluded === true,
+        });
+      }
+
       // Add warning if partial success
       if (result.partialSuccess) {
+        responseData.partialSuccess = true;
         responseData.warning = 'Partial success - one or more scrapes failed';
         responseData.partialError = result.error;
       }
@@ -815,7 +971,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         error: result.error,
         meta: {
           duration,
-          attempts: result.attempts
+          attempts: result.attempts,
+          steps: result.steps,
+          pool: getBrowserPoolStats()
         }
       });
     }
@@ -834,3 +992,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withResultCache(
+  {
+    source: 'workersComp',
+    query: req => {
+      const { companyName, fein, policyNumber, historyYears, jobDates, debug } = req.body || {};
+      if (typeof companyName !== 'string' && typeof fein !== 'string' && typeof policyNumber !== 'string') {
+        return null;
+      }
+      // Debug responses carry the raw HTML, so they are cached apart from normal ones.
+      return {
+        companyName: typeof companyName === 'string' ? companyName : undefined,
+        fein: normalizeFein(fein) || undefined,
+        policyNumber: typeof policyNumber === 'string' ? policyNumber : undefined,
+        historyYears,
+        jobDates: Array.isArray(jobDates) ? jobDates.map(date => toIsoDate(date)).join(',') : undefined,
+        debug: debug === true || debug === 'true' || undefined,
+      };
+    },
+  },
+  handler
+);
@@ -0,0 +1,106 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { toIsoDate } from '@/utils/dates';
+import { callInternalApi, getInternalBaseUrl } from '@/utils/internalApi';
+import { parseCacheMode } from '@/utils/resultCache';
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { archiveSunbizDocuments, MAX_DOCUMENTS_PER_REQUEST, selectDocumentImages } from '@/utils/sunbizDocuments';
+
+// -------------------
+// Configuration
+// -------------------
+const DETAIL_LOOKUP_TIMEOUT = 120000;
+
+// -------------------
+// Helper Functions
+// -------------------
+function parseStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === 'string' && Boolean(item.trim()));
+}
+
+function parseYearList(value: unknown): number[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.map(Number).filter(year => Number.isInteger(year));
+}
+
+// -------------------
+// API Handler
+// -------------------
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const documentNumber = typeof req.body?.documentNumber === 'string' ? req.body.documentNumber.trim().toUpperCase() : '';
+  if (!documentNumber) {
+    return res.status(400).json({ error: 'Document number is required.' });
+  }
+
+  if (!getSupabaseAdmin()) {
+    return res.status(503).json({ error: 'Document archival requires Supabase storage to be configured.' });
+  }
+
+  console.log(`[sunbizDocuments] Archiving documents for: ${documentNumber}`);
+  const startTime = Date.now();
+
+  try {
+    // The entity lookup goes through /api/scrapeSunbiz so it is cached like any other.
+    const detail = await callInternalApi(
+      getInternalBaseUrl(req),
+      '/api/scrapeSunbiz',
+      { documentNumber, cache: parseCacheMode(req.body.cache) },
+      DETAIL_LOOKUP_TIMEOUT
+    );
+
+    if (detail.status !== 200 || !detail.body?.document_number) {
+      return res.status(detail.status === 200 ? 404 : detail.status).json({
+        error: detail.body?.error || 'Sunbiz entity not found.',
+        meta: { duration: Date.now() - startTime },
+      });
+    }
+
+    const selected = selectDocumentImages(detail.body.document_images, detail.body.date_filed || '', {
+      filingTypes: parseStringList(req.body.filingTypes),
+      years: parseYearList(req.body.years),
+    }).sort((a, b) => toIsoDate(b.date).localeCompare(toIsoDate(a.date)));
+
+    // Newest filings first when the selection is larger than one request can download.
+    const images = selected.slice(0, MAX_DOCUMENTS_PER_REQUEST);
+    const { documents, errors } = await archiveSunbizDocuments({
+      documentNumber,
+      detailUrl: detail.body.detail_url || detail.body.url || '',
+      dateFiled: detail.body.date_filed || '',
+      images,
+      refresh: req.body.refresh === true,
+    });
+
+    const duration = Date.now() - startTime;
+    console.log(`[sunbizDocuments] Archived ${documents.length}/${images.length} documents in ${duration}ms`);
+
+    return res.status(200).json({
+      documentNumber,
+      entityName: detail.body.entity_name || '',
+      documents,
+      errors,
+      skipped: selected.length - images.length,
+      meta: { duration },
+    });
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[sunbizDocuments] Unexpected error:', errorMessage);
+    return res.status(500).json({
+      error: `Unexpected error: ${errorMessage}`,
+      meta: { duration },
+    });
+  }
+}
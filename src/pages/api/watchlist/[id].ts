@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { cronSecretMatches } from '@/utils/requestAuth';
+import { deleteWatchedCompany, getWatchChanges, getWatchedCompany } from '@/utils/watchlistStore';
+
+// -------------------
+// API Handler
+// -------------------
+// GET returns the company with its full change history; DELETE stops watching it.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!cronSecretMatches(req)) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    res.setHeader('Allow', ['GET', 'DELETE']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const id = String(req.query.id || '');
+
+  try {
+    if (req.method === 'DELETE') {
+      const deleted = await deleteWatchedCompany(id);
+      return deleted ? res.status(204).end() : res.status(404).json({ error: 'Watched company not found.' });
+    }
+
+    const company = await getWatchedCompany(id);
+    if (!company) {
+      return res.status(404).json({ error: 'Watched company not found.' });
+    }
+
+    return res.status(200).json({ ...company, changes: await getWatchChanges(id) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[watchlist] Failed to read company:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}` });
+  }
+}
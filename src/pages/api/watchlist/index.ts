@@ -0,0 +1,95 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PROFILE_SOURCES, ProfileSourceName } from '@/utils/companyProfile';
+import { checkCallbackUrl } from '@/utils/outboundUrl';
+import { cronSecretMatches } from '@/utils/requestAuth';
+import { createWatchedCompany, DEFAULT_INTERVAL_HOURS, listWatchedCompanies } from '@/utils/watchlistStore';
+
+// -------------------
+// Configuration
+// -------------------
+const MAX_INTERVAL_HOURS = 24 * 30;
+
+// -------------------
+// Helper Functions
+// -------------------
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function parseSources(value: unknown): ProfileSourceName[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((name): name is ProfileSourceName => PROFILE_SOURCES.includes(name));
+}
+
+// -------------------
+// API Handler
+// -------------------
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!cronSecretMatches(req)) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const companies = await listWatchedCompanies();
+      return res.status(200).json({ companies });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('[watchlist] Failed to list companies:', errorMessage);
+      return res.status(500).json({ error: `Unexpected error: ${errorMessage}` });
+    }
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  const companyName = optionalString(req.body?.companyName);
+  if (!companyName) {
+    return res.status(400).json({ error: 'Company name is required.' });
+  }
+
+  const webhookUrl = optionalString(req.body.webhookUrl);
+  const webhookError = webhookUrl ? await checkCallbackUrl(webhookUrl, 'Webhook URL') : null;
+  if (webhookError) {
+    return res.status(400).json({ error: webhookError });
+  }
+
+  const intervalHours = req.body.intervalHours === undefined ? DEFAULT_INTERVAL_HOURS : Number(req.body.intervalHours);
+  if (!Number.isInteger(intervalHours) || intervalHours < 1 || intervalHours > MAX_INTERVAL_HOURS) {
+    return res.status(400).json({ error: `intervalHours must be a whole number from 1 to ${MAX_INTERVAL_HOURS}.` });
+  }
+
+  try {
+    const company = await createWatchedCompany({
+      label: optionalString(req.body.label),
+      input: {
+        companyName,
+        documentNumber: optionalString(req.body.documentNumber),
+        licenseNumber: optionalString(req.body.licenseNumber),
+        fein: optionalString(req.body.fein),
+        city: optionalString(req.body.city),
+        state: optionalString(req.body.state),
+      },
+      sources: parseSources(req.body.sources),
+      webhookUrl,
+      intervalHours,
+    });
+    console.log(`[watchlist] Watching ${company.label} as ${company.id}`);
+
+    return res.status(201).json(company);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[watchlist] Failed to add company:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}` });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getInternalBaseUrl } from '@/utils/internalApi';
+import { cronSecretMatches } from '@/utils/requestAuth';
+import { checkWatchedCompany, runWatchlist } from '@/utils/watchlistMonitor';
+import { getWatchedCompany, isWatchId } from '@/utils/watchlistStore';
+
+// -------------------
+// Configuration
+// -------------------
+const BATCH_SIZE = Number(process.env.WATCHLIST_BATCH_SIZE) || 3;
+
+// -------------------
+// API Handler
+// -------------------
+// Scheduled from vercel.json. Checks the companies that are due, or one company right away with { id }.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  if (!cronSecretMatches(req)) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  const id = req.method === 'POST' ? req.body?.id : undefined;
+  if (id !== undefined && !isWatchId(id)) {
+    return res.status(400).json({ error: 'A valid watched company id is required.' });
+  }
+
+  const startTime = Date.now();
+  const baseUrl = getInternalBaseUrl(req);
+
+  try {
+    let results;
+    if (id) {
+      const company = await getWatchedCompany(id);
+      if (!company) {
+        return res.status(404).json({ error: 'Watched company not found.' });
+      }
+      results = [await checkWatchedCompany(baseUrl, company)];
+    } else {
+      results = await runWatchlist(baseUrl, { limit: BATCH_SIZE });
+    }
+
+    const duration = Date.now() - startTime;
+    const checked = results.filter(result => result.status !== 'skipped').length;
+    const changed = results.filter(result => result.status === 'changed').length;
+    console.log(`[watchlist] Checked ${checked} companies, ${changed} changed, in ${duration}ms`);
+
+    return res.status(200).json({ checked, results, meta: { duration } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[watchlist] Run failed:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}`, meta: { duration: Date.now() - startTime } });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { handleApifyWebhook, isApifyWebhookConfigured, webhookSecretMatches } from '@/utils/apifyWebhooks';
+import { isJobId } from '@/utils/jobStore';
+
+// -------------------
+// API Handler
+// -------------------
+// Called by Apify when a run started in webhook mode finishes.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  if (!isApifyWebhookConfigured()) {
+    return res.status(503).json({ error: 'Apify webhooks are not configured.' });
+  }
+
+  if (!webhookSecretMatches(req.headers['x-apify-webhook-secret'])) {
+    return res.status(401).json({ error: 'Unauthorized.' });
+  }
+
+  const jobId = String(req.query.jobId || '');
+  if (!isJobId(jobId)) {
+    return res.status(400).json({ error: 'A valid jobId is required.' });
+  }
+
+  const startTime = Date.now();
+  console.log(`[apifyWebhook] ${req.body?.eventType || 'Event'} for job ${jobId}`);
+
+  try {
+    const job = await handleApifyWebhook(jobId, req.body || {});
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found.' });
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[apifyWebhook] Job ${job.id} is ${job.status} (${duration}ms)`);
+    return res.status(200).json({ id: job.id, status: job.status, meta: { duration } });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[apifyWebhook] Failed to process webhook:', errorMessage);
+    return res.status(500).json({ error: `Unexpected error: ${errorMessage}`, meta: { duration: Date.now() - startTime } });
+  }
+}
@@ -0,0 +1,47 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { listApifyRuns, recordApifyRun } from '@/utils/apifyUsage';
+import type { ApifyRun } from '@/utils/sunbizApify';
+
+const run = (id: string, startedAt: string, usageTotalUsd: number): ApifyRun => ({
+  id,
+  actId: 'parseforge~sunbiz',
+  status: 'SUCCEEDED',
+  defaultDatasetId: `dataset-${id}`,
+  startedAt,
+  finishedAt: startedAt,
+  usageTotalUsd,
+});
+
+describe('recordApifyRun (file store)', () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'apify-usage-test-'));
+    vi.stubEnv('LOCAL_DATA_DIR', dataDir);
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps every record when runs are recorded concurrently', async () => {
+    const runs = Array.from({ length: 8 }, (_, i) => run(`run${i}`, `2024-07-0${i + 1}T10:00:00.000Z`, 0.25));
+    await Promise.all(runs.map(item => recordApifyRun(item, 1)));
+
+    const records = await listApifyRuns('2024-07-01', '2024-07-31');
+    expect(records.map(record => record.runId)).toEqual(runs.map(item => item.id));
+  });
+
+  it('overwrites a run recorded twice and filters by day', async () => {
+    await recordApifyRun(run('run0', '2024-07-01T10:00:00.000Z', 0.5), 2);
+
+    const records = await listApifyRuns('2024-07-01', '2024-07-01');
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ runId: 'run0', costUsd: 0.5, itemCount: 2 });
+  });
+});
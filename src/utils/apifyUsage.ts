@@ -0,0 +1,257 @@
+import type { ApifyRun } from '@/utils/sunbizApify';
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { listJsonFiles, readJsonFile, writeJsonFile } from '@/utils/fileStore';
+
+// -------------------
+// Type Definitions
+// -------------------
+export interface ApifyRunRecord {
+  runId: string;
+  actorId: string;
+  status: string;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  itemCount: number;
+  computeUnits: number | null;
+  costUsd: number | null;
+  // Per-resource breakdown exactly as Apify reports it (`usage` / `usageUsd`).
+  usage: Record<string, unknown> | null;
+  usageUsd: Record<string, unknown> | null;
+}
+
+export interface ApifyUsageRow {
+  day: string;
+  actorId: string;
+  runs: number;
+  succeeded: number;
+  failed: number;
+  items: number;
+  computeUnits: number;
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface ApifyBudgetStatus {
+  month: string;
+  spentUsd: number;
+  budgetUsd: number | null;
+  exceeded: boolean;
+}
+
+// -------------------
+// Configuration
+// -------------------
+const RUNS_TABLE = 'apify_runs';
+const PAGE_SIZE = 1000;
+// How long a warm instance trusts its last read of this month's spend.
+const SPEND_CACHE_MS = 60 * 1000;
+
+let spendCache: { month: string; spentUsd: number; at: number } | null = null;
+
+// -------------------
+// Helper Functions
+// -------------------
+function toNumber(value: unknown): number | null {
+  const number = Number(value);
+  return value === undefined || value === null || value === '' || !Number.isFinite(number) ? null : number;
+}
+
+function monthOf(isoDate: string): string {
+  return isoDate.slice(0, 7);
+}
+
+// One file per run, so concurrent runs never rewrite each other's records.
+function monthDirPath(month: string): string {
+  return `apify-runs/${month}`;
+}
+
+function runFilePath(month: string, runId: string): string {
+  return `${monthDirPath(month)}/${runId.replace(/[^A-Za-z0-9_-]/g, '_')}.json`;
+}
+
+/** Months (YYYY-MM) touched by the inclusive date range. */
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  const cursor = new Date(`${monthOf(from)}-01T00:00:00Z`);
+  const end = new Date(`${monthOf(to)}-01T00:00:00Z`);
+  while (cursor <= end) {
+    months.push(cursor.toISOString().slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+export function getMonthlyBudgetUsd(): number | null {
+  const budget = toNumber(process.env.APIFY_MONTHLY_BUDGET_USD);
+  return budget !== null && budget > 0 ? budget : null;
+}
+
+export function toApifyRunRecord(run: ApifyRun, itemCount: number): ApifyRunRecord {
+  const startedAt = run.startedAt || new Date().toISOString();
+  const finishedAt = run.finishedAt || null;
+  const runTimeSecs = toNumber(run.stats?.runTimeSecs);
+
+  return {
+    runId: run.id,
+    actorId: run.actId || 'unknown',
+    status: run.status,
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt
+      ? new Date(finishedAt).getTime() - new Date(startedAt).getTime()
+      : runTimeSecs !== null
+        ? Math.round(runTimeSecs * 1000)
+        : null,
+    itemCount,
+    computeUnits: toNumber(run.stats?.computeUnits),
+    costUsd: toNumber(run.usageTotalUsd),
+    usage: run.usage || null,
+    usageUsd: run.usageUsd || null,
+  };
+}
+
+// -------------------
+// Storage
+// -------------------
+
+/**
+ * Record a run when it starts and again when it finishes. Keyed on the run id,
+ * so each later record (its finish, a repeated webhook delivery) overwrites
+ * the earlier one rather than double-counting.
+ * Never throws: losing a usage row must not fail the lookup that paid for it.
+ */
+export async function recordApifyRun(run: ApifyRun, itemCount: number): Promise<void> {
+  const record = toApifyRunRecord(run, itemCount);
+
+  try {
+    const supabase = getSupabaseAdmin();
+    if (supabase) {
+      const { error } = await supabase.from(RUNS_TABLE).upsert(
+        {
+          run_id: record.runId,
+          actor_id: record.actorId,
+          status: record.status,
+          started_at: record.startedAt,
+          record,
+        },
+        { onConflict: 'run_id' }
+      );
+      if (error) throw new Error(error.message);
+    } else {
+      await writeJsonFile(runFilePath(monthOf(record.startedAt), record.runId), record);
+    }
+
+    if (spendCache && spendCache.month === monthOf(record.startedAt)) {
+      spendCache = null;
+    }
+  } catch (error) {
+    console.warn(
+      `[apifyUsage] Failed to record run ${record.runId}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/** Runs started within the inclusive date range (YYYY-MM-DD). */
+export async function listApifyRuns(from: string, to: string): Promise<ApifyRunRecord[]> {
+  const supabase = getSupabaseAdmin();
+  const inRange = (record: ApifyRunRecord) => {
+    const day = record.startedAt.slice(0, 10);
+    return day >= from && day <= to;
+  };
+
+  if (supabase) {
+    const records: ApifyRunRecord[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(RUNS_TABLE)
+        .select('record')
+        .gte('started_at', `${from}T00:00:00Z`)
+        .lte('started_at', `${to}T23:59:59.999Z`)
+        .order('started_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(`Apify usage read failed: ${error.message}`);
+
+      records.push(...(data || []).map(row => row.record as ApifyRunRecord));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return records;
+  }
+
+  const records: ApifyRunRecord[] = [];
+  for (const month of monthsBetween(from, to)) {
+    const names = await listJsonFiles(monthDirPath(month));
+    const runs = await Promise.all(names.map(name => readJsonFile<ApifyRunRecord>(`${monthDirPath(month)}/${name}.json`)));
+    records.push(...runs.filter((record): record is ApifyRunRecord => record !== null && inRange(record)));
+  }
+  return records.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+// -------------------
+// Summaries
+// -------------------
+export function summarizeApifyRuns(records: ApifyRunRecord[]): ApifyUsageRow[] {
+  const rows = new Map<string, ApifyUsageRow>();
+
+  for (const record of records) {
+    const day = record.startedAt.slice(0, 10);
+    const key = `${day}|${record.actorId}`;
+    const row = rows.get(key) || {
+      day,
+      actorId: record.actorId,
+      runs: 0,
+      succeeded: 0,
+      failed: 0,
+      items: 0,
+      computeUnits: 0,
+      costUsd: 0,
+      durationMs: 0,
+    };
+
+    row.runs++;
+    if (record.status === 'SUCCEEDED') row.succeeded++;
+    else row.failed++;
+    row.items += record.itemCount;
+    row.computeUnits += record.computeUnits || 0;
+    row.costUsd += record.costUsd || 0;
+    row.durationMs += record.durationMs || 0;
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.day.localeCompare(b.day) || a.actorId.localeCompare(b.actorId));
+}
+
+/**
+ * This month's Apify spend against APIFY_MONTHLY_BUDGET_USD. Cached briefly
+ * per instance because the Sunbiz router asks on every lookup.
+ */
+export async function getApifyBudgetStatus(): Promise<ApifyBudgetStatus> {
+  const today = new Date().toISOString().slice(0, 10);
+  const month = monthOf(today);
+  const budgetUsd = getMonthlyBudgetUsd();
+
+  if (!spendCache || spendCache.month !== month || Date.now() - spendCache.at > SPEND_CACHE_MS) {
+    const records = await listApifyRuns(`${month}-01`, today);
+    const spentUsd = records.reduce((total, record) => total + (record.costUsd || 0), 0);
+    spendCache = { month, spentUsd, at: Date.now() };
+  }
+
+  return {
+    month,
+    spentUsd: spendCache.spentUsd,
+    budgetUsd,
+    exceeded: budgetUsd !== null && spendCache.spentUsd >= budgetUsd,
+  };
+}
+
+export async function isApifyBudgetExceeded(): Promise<boolean> {
+  if (getMonthlyBudgetUsd() === null) return false;
+
+  try {
+    return (await getApifyBudgetStatus()).exceeded;
+  } catch (error) {
+    console.warn('[apifyUsage] Budget check failed:', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { completeJob } from '@/utils/jobRunner';
+import { createJob, getJob, Job, newJobEvent, saveJob } from '@/utils/jobStore';
+import { splitDbaName } from '@/utils/normalizeCompanyName';
+import { indexSunbizEntity } from '@/utils/relationshipGraph';
+import { buildCacheKey, writeCache } from '@/utils/resultCache';
+import {
+  getApifyRun,
+  getApifyRunItems,
+  resolveParseForgeDetail,
+  startSunbizDetailRunWithWebhook,
+} from '@/utils/sunbizApify';
+
+// -------------------
+// Type Definitions
+// -------------------
+export interface ApifyWebhookPayload {
+  eventType?: string;
+  eventData?: { actorId?: string; actorRunId?: string };
+  resource?: { id?: string; status?: string; defaultDatasetId?: string };
+}
+
+// -------------------
+// Helper Functions
+// -------------------
+function getWebhookSecret(): string | null {
+  return process.env.APIFY_WEBHOOK_SECRET || null;
+}
+
+export function isApifyWebhookConfigured(): boolean {
+  return Boolean(getWebhookSecret());
+}
+
+export function webhookSecretMatches(provided: unknown): boolean {
+  const secret = getWebhookSecret();
+  if (!secret) return false;
+  if (typeof provided !== 'string' || provided.length !== secret.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(secret));
+}
+
+// -------------------
+// Start
+// -------------------
+
+/**
+ * Start a Sunbiz detail run in webhook mode and return the job that tracks it.
+ * The job stays `running` until `/api/webhooks/apify` reports the run finished.
+ * `query` is the /api/scrapeSunbiz request as sent, DBA suffix included; the
+ * run searches the legal name, like the synchronous lookup.
+ */
+export async function startSunbizWebhookJob(
+  baseUrl: string,
+  query: { companyName?: string; documentNumber?: string },
+  callbackUrl?: string | null
+): Promise<Job> {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    throw new Error('APIFY_WEBHOOK_SECRET is not configured');
+  }
+
+  const dba = query.companyName ? splitDbaName(query.companyName) : null;
+  const job = await createJob({ type: 'sunbiz', input: query, callbackUrl });
+  let run;
+  try {
+    run = await startSunbizDetailRunWithWebhook(dba ? { ...query, companyName: dba.legalName } : query, {
+      requestUrl: `${baseUrl}/api/webhooks/apify?jobId=${job.id}`,
+      secret,
+    });
+  } catch (error) {
+    // Settle the job so it isn't left queued for a run that never started.
+    await completeJob(job, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  job.apifyRun = { actorId: run.actorId, runId: run.id };
+  job.events.push(newJobEvent('started', `Apify run ${run.id} started`, { runId: run.id }));
+  await saveJob(job);
+
+  return job;
+}
+
+// -------------------
+// Completion
+// -------------------
+
+/**
+ * Finish the job for a webhook delivery. The run is re-read from Apify rather
+ * than trusted from the payload, and repeated deliveries are ignored.
+ */
+export async function handleApifyWebhook(jobId: string, payload: ApifyWebhookPayload): Promise<Job | null> {
+  const job = await getJob(jobId);
+  const runId = payload.eventData?.actorRunId || payload.resource?.id;
+  // A run that isn't the one this job started is treated like an unknown job.
+  if (!job || !job.apifyRun || !runId || runId !== job.apifyRun.runId) return null;
+
+  if (job.status === 'succeeded' || job.status === 'failed') {
+    return job;
+  }
+
+  const run = await getApifyRun(runId);
+  if (['READY', 'RUNNING'].includes(run.status)) {
+    job.events.push(newJobEvent('progress', `Webhook received while run is ${run.status}`));
+    await saveJob(job);
+    return job;
+  }
+
+  try {
+    const items = await getApifyRunItems(run);
+
+    // Shaped like an /api/scrapeSunbiz response to the query the job was started with.
+    const { companyName, documentNumber } = job.input as { companyName?: string; documentNumber?: string };
+    const dba = companyName ? splitDbaName(companyName) : null;
+    const outcome = await resolveParseForgeDetail(items, {
+      companyName: dba ? dba.legalName : companyName,
+      documentNumber,
+    });
+    if (outcome.kind === 'not_found') {
+      return completeJob(job, { error: 'Company not found or all matches were filtered out.' });
+    }
+
+    const result =
+      outcome.kind === 'review'
+        ? { review: outcome.review.join(', ') }
+        : {
+            ...outcome.data,
+            ...(dba ? { dba_name: dba.dbaName } : {}),
+            meta: { provider: 'apify_parseforge', mode: 'webhook', runId },
+          };
+
+    // Store it where /api/scrapeSunbiz looks, so the next synchronous lookup is a cache hit.
+    try {
+      await writeCache(buildCacheKey('sunbiz', { companyName, documentNumber }), 'sunbiz', result);
+    } catch (error) {
+      console.warn('[apifyWebhook] Cache write failed:', error instanceof Error ? error.message : String(error));
+    }
+    if (outcome.kind === 'found') {
+      try {
+        await indexSunbizEntity(outcome.data);
+      } catch (error) {
+        console.warn('[apifyWebhook] Relationship indexing failed:', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return completeJob(job, { result });
+  } catch (error) {
+    return completeJob(job, { error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -0,0 +1,9 @@
+export { launchBrowser, closeBrowserSafely } from './launch';
+export { configurePage, openConfiguredPage } from './page';
+export { withBrowser } from './session';
+export type { BrowserSession } from './session';
+export { acquirePooledBrowser, releasePooledBrowser, getBrowserPoolStats } from './pool';
+export type { BrowserPoolStats, PooledBrowser } from './pool';
+export { SUNBIZ_PROFILE, BBB_PROFILE, DBPR_PROFILE, WORKERS_COMP_PROFILE } from './profiles';
+export type { BrowserProfile } from './profiles';
+export { DESKTOP_CHROME_USER_AGENTS, pickUserAgent } from './userAgents';
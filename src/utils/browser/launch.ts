@@ -0,0 +1,56 @@
+import chromium from '@sparticuz/chromium';
+import puppeteer, { Browser } from 'puppeteer-core';
+import { BrowserProfile } from './profiles';
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--disable-gpu',
+  '--disable-blink-features=AutomationControlled',
+  '--lang=en-US,en',
+  '--window-size=1920,1080',
+];
+
+/**
+ * Launch Chromium, rejecting if it takes longer than the profile allows.
+ * A browser that finishes launching after the deadline is closed rather than leaked.
+ */
+export async function launchBrowser(profile: BrowserProfile): Promise<Browser> {
+  const launching = puppeteer.launch({
+    args: [...chromium.args, ...LAUNCH_ARGS],
+    executablePath: await chromium.executablePath(),
+    headless: "shell",
+  });
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      launching,
+      new Promise<Browser>((_, reject) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          reject(new Error('Browser launch timeout'));
+        }, profile.launchTimeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    if (timedOut) {
+      launching.then(browser => closeBrowserSafely(browser, profile)).catch(() => undefined);
+    }
+  }
+}
+
+export async function closeBrowserSafely(browser: Browser | null, profile?: BrowserProfile): Promise<void> {
+  if (browser) {
+    try {
+      await browser.close();
+    } catch (error) {
+      console.error(`${profile?.logPrefix || '[browser]'} Error closing browser:`, error);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Browser, BrowserContext, Page } from 'puppeteer-core';
+import { BrowserProfile } from './profiles';
+import { pickUserAgent } from './userAgents';
+
+/**
+ * Apply the profile's user agent, viewport, headers and stealth patches to a page.
+ */
+export async function configurePage(page: Page, profile: BrowserProfile): Promise<void> {
+  page.setDefaultTimeout(profile.defaultTimeoutMs);
+  await page.setUserAgent(pickUserAgent(profile.userAgents));
+  await page.setJavaScriptEnabled(true);
+  await page.setViewport(profile.viewport);
+  await page.setExtraHTTPHeaders(profile.extraHTTPHeaders);
+
+  if (profile.stealth) {
+    // Mask webdriver detection
+    await page.evaluateOnNewDocument(() => {
+      Object.defineProperty(navigator, 'webdriver', { get: () => false });
+      Object.defineProperty(navigator, 'languages', { get: () => ['en-US', 'en'] });
+      Object.defineProperty(navigator, 'plugins', { get: () => [1, 2, 3, 4, 5] });
+    });
+  }
+}
+
+export async function openConfiguredPage(target: Browser | BrowserContext, profile: BrowserProfile): Promise<Page> {
+  const page = await target.newPage();
+  await configurePage(page, profile);
+  return page;
+}
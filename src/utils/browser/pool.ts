@@ -0,0 +1,149 @@
+import { Browser } from 'puppeteer-core';
+import { closeBrowserSafely, launchBrowser } from './launch';
+import { BrowserProfile } from './profiles';
+
+// -------------------
+// Configuration
+// -------------------
+const POOL_ENABLED = process.env.BROWSER_POOL_DISABLED !== 'true';
+const MAX_USES = Number(process.env.BROWSER_POOL_MAX_USES) || 20;
+const MAX_AGE_MS = Number(process.env.BROWSER_POOL_MAX_AGE_MS) || 10 * 60 * 1000;
+
+// -------------------
+// Type Definitions
+// -------------------
+export interface PooledBrowser {
+  browser: Browser;
+  uses: number;
+  launchedAt: number;
+  activeContexts: number;
+  retiring: boolean;
+}
+
+export interface BrowserPoolStats {
+  enabled: boolean;
+  warm: boolean;
+  uses: number;
+  maxUses: number;
+  activeContexts: number;
+  browserAgeMs: number | null;
+  launches: number;
+  reuses: number;
+  recycles: number;
+  crashes: number;
+}
+
+// -------------------
+// Pool State
+// -------------------
+// One warm browser per function instance. Module state survives between
+// invocations for as long as the platform keeps the instance alive.
+let current: PooledBrowser | null = null;
+let launching: Promise<PooledBrowser> | null = null;
+const counters = { launches: 0, reuses: 0, recycles: 0, crashes: 0 };
+
+function isWorn(entry: PooledBrowser): boolean {
+  return entry.uses >= MAX_USES || Date.now() - entry.launchedAt >= MAX_AGE_MS;
+}
+
+function retire(entry: PooledBrowser, profile?: BrowserProfile): void {
+  if (!entry.retiring) {
+    entry.retiring = true;
+    counters.recycles++;
+  }
+  if (current === entry) {
+    current = null;
+  }
+  if (entry.activeContexts === 0) {
+    void closeBrowserSafely(entry.browser, profile);
+  }
+}
+
+async function launchPooledBrowser(profile: BrowserProfile): Promise<PooledBrowser> {
+  const browser = await launchBrowser(profile);
+  const entry: PooledBrowser = {
+    browser,
+    uses: 0,
+    launchedAt: Date.now(),
+    activeContexts: 0,
+    retiring: !POOL_ENABLED,
+  };
+  counters.launches++;
+
+  browser.on('disconnected', () => {
+    if (!entry.retiring) {
+      counters.crashes++;
+      console.warn(`${profile.logPrefix} Pooled browser disconnected, it will be relaunched`);
+    }
+    entry.retiring = true;
+    if (current === entry) {
+      current = null;
+    }
+  });
+
+  return entry;
+}
+
+// -------------------
+// Public API
+// -------------------
+
+/**
+ * Hand out the warm browser, launching or recycling it first when needed.
+ * Every acquire must be paired with `releasePooledBrowser`.
+ */
+export async function acquirePooledBrowser(profile: BrowserProfile): Promise<PooledBrowser> {
+  if (current && (!current.browser.connected || isWorn(current))) {
+    retire(current, profile);
+  }
+
+  let entry = current;
+  if (entry) {
+    counters.reuses++;
+  } else if (!POOL_ENABLED) {
+    entry = await launchPooledBrowser(profile);
+  } else {
+    if (!launching) {
+      launching = launchPooledBrowser(profile)
+        .then(launched => {
+          current = launched;
+          return launched;
+        })
+        .finally(() => {
+          launching = null;
+        });
+    }
+    entry = await launching;
+  }
+
+  entry.uses++;
+  entry.activeContexts++;
+  return entry;
+}
+
+export function releasePooledBrowser(entry: PooledBrowser, options: { crashed?: boolean; profile?: BrowserProfile } = {}): void {
+  entry.activeContexts = Math.max(0, entry.activeContexts - 1);
+
+  if (options.crashed && !entry.retiring) {
+    counters.crashes++;
+    retire(entry, options.profile);
+    return;
+  }
+
+  if (entry.retiring || isWorn(entry)) {
+    retire(entry, options.profile);
+  }
+}
+
+export function getBrowserPoolStats(): BrowserPoolStats {
+  const warm = Boolean(current && current.browser.connected);
+  return {
+    enabled: POOL_ENABLED,
+    warm,
+    uses: current?.uses || 0,
+    maxUses: MAX_USES,
+    activeContexts: current?.activeContexts || 0,
+    browserAgeMs: current ? Date.now() - current.launchedAt : null,
+    ...counters,
+  };
+}
@@ -0,0 +1,68 @@
+import { DESKTOP_CHROME_USER_AGENTS } from './userAgents';
+
+/**
+ * Per-source browser settings. Routes pick a profile instead of carrying their
+ * own launch and page-hardening code.
+ */
+export interface BrowserProfile {
+  name: string;
+  logPrefix: string;
+  launchTimeoutMs: number;
+  defaultTimeoutMs: number;
+  userAgents: string[];
+  viewport: { width: number; height: number };
+  extraHTTPHeaders: Record<string, string>;
+  // Mask navigator.webdriver, languages and plugins before any page script runs.
+  stealth: boolean;
+}
+
+const DEFAULT_HEADERS = {
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+};
+
+const DEFAULT_VIEWPORT = { width: 1920, height: 1080 };
+
+export const SUNBIZ_PROFILE: BrowserProfile = {
+  name: 'sunbiz',
+  logPrefix: '[sunbiz]',
+  launchTimeoutMs: 15000,
+  defaultTimeoutMs: 30000,
+  userAgents: DESKTOP_CHROME_USER_AGENTS,
+  viewport: DEFAULT_VIEWPORT,
+  extraHTTPHeaders: DEFAULT_HEADERS,
+  stealth: true,
+};
+
+export const BBB_PROFILE: BrowserProfile = {
+  name: 'bbb',
+  logPrefix: '[BBB_DEBUG]',
+  launchTimeoutMs: 30000,
+  defaultTimeoutMs: 30000,
+  userAgents: DESKTOP_CHROME_USER_AGENTS,
+  viewport: DEFAULT_VIEWPORT,
+  extraHTTPHeaders: DEFAULT_HEADERS,
+  stealth: true,
+};
+
+export const DBPR_PROFILE: BrowserProfile = {
+  name: 'dbpr',
+  logPrefix: '[SCRAPE_COMPANY]',
+  launchTimeoutMs: 30000,
+  defaultTimeoutMs: 30000,
+  userAgents: DESKTOP_CHROME_USER_AGENTS,
+  viewport: DEFAULT_VIEWPORT,
+  extraHTTPHeaders: DEFAULT_HEADERS,
+  stealth: true,
+};
+
+export const WORKERS_COMP_PROFILE: BrowserProfile = {
+  name: 'workersComp',
+  logPrefix: '[WORKERS_COMP]',
+  launchTimeoutMs: 50000,
+  defaultTimeoutMs: 30000,
+  userAgents: DESKTOP_CHROME_USER_AGENTS,
+  viewport: DEFAULT_VIEWPORT,
+  extraHTTPHeaders: DEFAULT_HEADERS,
+  stealth: true,
+};
@@ -0,0 +1,56 @@
+import { Browser, BrowserContext, Page } from 'puppeteer-core';
+import { openConfiguredPage } from './page';
+import { acquirePooledBrowser, releasePooledBrowser } from './pool';
+import { BrowserProfile } from './profiles';
+
+const CRASH_PATTERN = /target closed|session closed|browser has disconnected|page crashed|protocol error/i;
+
+export interface BrowserSession {
+  browser: Browser;
+  context: BrowserContext;
+  newPage(): Promise<Page>;
+  // Close the context early, e.g. when the caller has given up waiting on `fn`.
+  close(): Promise<void>;
+}
+
+/**
+ * Run `fn` in an isolated incognito context on the pooled browser. The context
+ * is always closed afterwards, whether `fn` returns, throws or the caller
+ * returns early from inside it; a browser that died along the way is recycled.
+ * Errors caused by `session.close()` don't count as the browser dying.
+ */
+export async function withBrowser<T>(
+  profile: BrowserProfile,
+  fn: (session: BrowserSession) => Promise<T>
+): Promise<T> {
+  const entry = await acquirePooledBrowser(profile);
+  let context: BrowserContext | null = null;
+  let closing: Promise<void> | null = null;
+  let crashed = false;
+
+  const closeContext = () => {
+    if (!closing && context) {
+      closing = context.close().catch(error => {
+        console.error(`${profile.logPrefix} Error closing browser context:`, error);
+      });
+    }
+    return closing || Promise.resolve();
+  };
+
+  try {
+    context = await entry.browser.createBrowserContext();
+    const sessionContext = context;
+    return await fn({
+      browser: entry.browser,
+      context: sessionContext,
+      newPage: () => openConfiguredPage(sessionContext, profile),
+      close: closeContext,
+    });
+  } catch (error) {
+    crashed = !closing && CRASH_PATTERN.test(error instanceof Error ? error.message : String(error));
+    throw error;
+  } finally {
+    await closeContext();
+    releasePooledBrowser(entry, { crashed: crashed || !entry.browser.connected, profile });
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Desktop Chrome user agents kept in step with the Chromium build shipped by
+ * @sparticuz/chromium, so the UA string matches the engine sites fingerprint.
+ */
+export const DESKTOP_CHROME_USER_AGENTS = [
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
+  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36",
+];
+
+export function pickUserAgent(userAgents: string[] = DESKTOP_CHROME_USER_AGENTS): string {
+  return userAgents[Math.floor(Math.random() * userAgents.length)];
+}
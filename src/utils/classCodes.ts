@@ -0,0 +1,57 @@
+import dataset from '@/data/classCodes.json';
+
+// -------------------
+// Type Definitions
+// -------------------
+export interface ClassCodeEntry {
+  code: string;
+  industryGroup: string;
+  phraseology: string;
+  description: string;
+  category: string;
+  // Listed as a construction class under Florida Rule 69L-6.021.
+  construction: boolean;
+}
+
+export interface ClassCodeDatasetInfo {
+  version: string;
+  state: string;
+  updatedAt: string;
+  source: string;
+  size: number;
+}
+
+// -------------------
+// Configuration
+// -------------------
+
+// Bundled with the build; update src/data/classCodes.json and bump its version.
+const CLASS_CODES = new Map<string, ClassCodeEntry>(
+  (dataset.codes as ClassCodeEntry[]).map(entry => [entry.code, entry])
+);
+
+// -------------------
+// Lookups
+// -------------------
+
+/** Class codes are four digits; DWC sometimes drops the leading zero. */
+export function normalizeClassCode(value: unknown): string | null {
+  const digits = String(value ?? '').trim();
+  if (!/^\d{1,4}$/.test(digits)) return null;
+  return digits.padStart(4, '0');
+}
+
+export function lookupClassCode(value: unknown): ClassCodeEntry | null {
+  const code = normalizeClassCode(value);
+  return code ? CLASS_CODES.get(code) || null : null;
+}
+
+export function getClassCodeDatasetInfo(): ClassCodeDatasetInfo {
+  return {
+    version: dataset.version,
+    state: dataset.state,
+    updatedAt: dataset.updatedAt,
+    source: dataset.source,
+    size: CLASS_CODES.size,
+  };
+}
@@ -0,0 +1,423 @@
+import { callInternalApi, InternalApiResponse } from '@/utils/internalApi';
+import type { CacheMeta, CacheMode } from '@/utils/resultCache';
+import type { FilingFlags } from '@/utils/sunbizTimeline';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type ProfileSourceName = 'sunbiz' | 'dbpr' | 'bbb' | 'reviews' | 'workersComp';
+
+export type ProfileSourceStatus = 'success' | 'not_found' | 'review_needed' | 'blocked' | 'error';
+
+export interface CompanyProfileInput {
+  companyName: string;
+  documentNumber?: string;
+  licenseNumber?: string;
+  // Searched instead of the name on the workers comp portal when known.
+  fein?: string;
+  city?: string;
+  state?: string;
+  cache?: CacheMode;
+}
+
+export interface ProfileSourceReport {
+  status: ProfileSourceStatus;
+  durationMs: number;
+  httpStatus?: number;
+  error?: string;
+  review?: string[];
+  cache?: CacheMeta;
+}
+
+export interface SunbizSummary {
+  entityName: string;
+  documentNumber: string;
+  entityType: string;
+  status: string;
+  dateFiled: string;
+  feiEin: string;
+  principalAddress: string;
+  registeredAgentName: string;
+  officers: { name: string; title: string }[];
+  filingFlags: FilingFlags | null;
+  detailUrl: string;
+}
+
+export interface DbprSummary {
+  licenseeName: string;
+  licenseType: string;
+  licenseNumber: string;
+  status: string;
+  expires: string;
+  // Across every license the company holds; null when any license's
+  // complaints page couldn't be read.
+  complaintCount: number | null;
+  licenseCount: number;
+}
+
+export interface BbbSummary {
+  company: string;
+  rating: string;
+  accreditationStatus: string;
+  profileUrl: string;
+  matchScore: number | null;
+}
+
+export interface ReviewsSummary {
+  businessName: string;
+  rating: number | null;
+  totalRatings: number;
+  placeId: string;
+}
+
+export interface WorkersCompSummary {
+  hasPolicyInEffect: boolean;
+  hasExemption: boolean;
+  governingClassCode: string;
+  partialSuccess: boolean;
+}
+
+export interface CompanyProfile {
+  query: CompanyProfileInput;
+  sunbiz: SunbizSummary | null;
+  dbpr: DbprSummary | null;
+  bbb: BbbSummary | null;
+  reviews: ReviewsSummary | null;
+  workersComp: WorkersCompSummary | null;
+  // Only the sources that were asked for have an entry.
+  sources: Partial<Record<ProfileSourceName, ProfileSourceReport>>;
+  raw: Partial<Record<ProfileSourceName, any>>;
+}
+
+type ClassifiedResponse = {
+  status: ProfileSourceStatus;
+  error?: string;
+  review?: string[];
+};
+
+type ProfileSource = {
+  path: string;
+  // Returns a reason string when the input cannot be sent to this source.
+  precondition?: (input: CompanyProfileInput) => string | null;
+  buildBody: (input: CompanyProfileInput) => Record<string, unknown>;
+  classify: (response: InternalApiResponse) => ClassifiedResponse;
+};
+
+// -------------------
+// Configuration
+// -------------------
+const SOURCE_TIMEOUT_MS = Number(process.env.COMPANY_PROFILE_SOURCE_TIMEOUT_MS) || 280000;
+const BLOCKED_PATTERN = /just a moment|security verification|protect against malicious bots|captcha|access denied/i;
+
+// -------------------
+// Helper Functions
+// -------------------
+function pickString(...values: unknown[]): string {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return '';
+}
+
+function errorText(body: any): string {
+  return pickString(body?.error, body?.message) || 'Unknown error';
+}
+
+function toReviewList(review: unknown): string[] {
+  if (Array.isArray(review)) return review.map(String);
+  if (typeof review === 'string') return review.split(',').map(name => name.trim()).filter(Boolean);
+  return [];
+}
+
+function classifyFailure(response: InternalApiResponse): ClassifiedResponse {
+  const error = errorText(response.body);
+  if (response.body?.meta?.blocked || BLOCKED_PATTERN.test(error)) {
+    return { status: 'blocked', error };
+  }
+  if (response.status === 404) {
+    return { status: 'not_found', error };
+  }
+  return { status: 'error', error };
+}
+
+// -------------------
+// Source Definitions
+// -------------------
+const SOURCES: Record<ProfileSourceName, ProfileSource> = {
+  sunbiz: {
+    path: '/api/scrapeSunbiz',
+    buildBody: input => ({
+      companyName: input.companyName,
+      documentNumber: input.documentNumber,
+    }),
+    classify: response => {
+      if (response.status === 200) {
+        if (response.body?.review) {
+          return { status: 'review_needed', review: toReviewList(response.body.review) };
+        }
+        return { status: 'success' };
+      }
+      const failure = classifyFailure(response);
+      if (failure.status === 'error' && /company not found/i.test(failure.error || '')) {
+        return { status: 'not_found', error: failure.error };
+      }
+      return failure;
+    },
+  },
+  dbpr: {
+    path: '/api/scrapeCompany',
+    buildBody: input => ({
+      companyName: input.licenseNumber ? undefined : input.companyName,
+      licenseNumber: input.licenseNumber,
+    }),
+    classify: response => {
+      if (response.status === 200) {
+        if (response.body?.review) {
+          return { status: 'review_needed', review: toReviewList(response.body.review) };
+        }
+        if (response.body?.error) {
+          return { status: 'review_needed', error: response.body.error };
+        }
+        return { status: 'success' };
+      }
+      return classifyFailure(response);
+    },
+  },
+  bbb: {
+    path: '/api/bbb-data',
+    precondition: input => (input.city ? null : 'BBB lookup requires a city'),
+    buildBody: input => ({
+      companyName: input.companyName,
+      city: input.city,
+      state: input.state || 'FL',
+    }),
+    classify: response => {
+      if (response.status === 200 && response.body?.success) {
+        return { status: 'success' };
+      }
+      return classifyFailure(response);
+    },
+  },
+  reviews: {
+    path: '/api/scrapeReviews',
+    buildBody: input => ({
+      companyName: input.companyName,
+      state: input.state || 'Florida',
+    }),
+    classify: response => {
+      if (response.status === 200) {
+        if (response.body?.business_found) {
+          return { status: 'success' };
+        }
+        if (response.body?.error) {
+          return { status: 'error', error: response.body.error };
+        }
+        return { status: 'not_found', error: errorText(response.body) };
+      }
+      return classifyFailure(response);
+    },
+  },
+  workersComp: {
+    path: '/api/scrapeWorkersComp',
+    buildBody: input => ({
+      companyName: input.companyName,
+      fein: input.fein,
+    }),
+    classify: response => {
+      if (response.status === 200 && response.body?.success) {
+        return { status: 'success' };
+      }
+      return classifyFailure(response);
+    },
+  },
+};
+
+export const PROFILE_SOURCES = Object.keys(SOURCES) as ProfileSourceName[];
+
+// -------------------
+// Summaries
+// -------------------
+function summarizeSunbiz(body: any): SunbizSummary {
+  const officers = Array.isArray(body?.officers) ? body.officers : [];
+  return {
+    entityName: pickString(body?.entity_name),
+    documentNumber: pickString(body?.document_number),
+    entityType: pickString(body?.entity_type),
+    status: pickString(body?.status),
+    dateFiled: pickString(body?.date_filed),
+    feiEin: pickString(body?.fei_ein),
+    principalAddress: pickString(body?.principal_address),
+    registeredAgentName: pickString(body?.registered_agent_name),
+    officers: officers.map((officer: any) => ({
+      name: pickString(officer?.Name),
+      title: pickString(officer?.Title),
+    })),
+    filingFlags: body?.filing_flags || null,
+    detailUrl: pickString(body?.detail_url, body?.url),
+  };
+}
+
+function summarizeDbpr(body: any): DbprSummary {
+  const data = body?.data || {};
+  const licenses: any[] = Array.isArray(body?.licenses) ? body.licenses : [data];
+  return {
+    licenseeName: pickString(data.licenseeName),
+    licenseType: pickString(data.licenseType),
+    licenseNumber: pickString(data.licenseNumber),
+    status: pickString(data.status),
+    expires: pickString(data.expirationDate),
+    complaintCount: licenses.every(license => Array.isArray(license?.complaints))
+      ? licenses.reduce((total, license) => total + license.complaints.length, 0)
+      : null,
+    licenseCount: Array.isArray(body?.licenses) ? body.licenses.length : 1,
+  };
+}
+
+function summarizeBbb(body: any): BbbSummary {
+  const data = body?.data || {};
+  return {
+    company: pickString(data.company),
+    rating: pickString(data.bbbRating),
+    accreditationStatus: pickString(data.accreditationStatus),
+    profileUrl: pickString(data.profileUrl),
+    matchScore: typeof data.matchScore === 'number' ? data.matchScore : null,
+  };
+}
+
+function summarizeReviews(body: any): ReviewsSummary {
+  return {
+    businessName: pickString(body?.business_name),
+    rating: typeof body?.rating === 'number' ? body.rating : null,
+    totalRatings: Number(body?.total_ratings) || 0,
+    placeId: pickString(body?.place_id),
+  };
+}
+
+function summarizeWorkersComp(body: any): WorkersCompSummary {
+  const data = body?.data || {};
+  return {
+    hasPolicyInEffect: Array.isArray(data.proofOfCoverage?.policies)
+      ? data.proofOfCoverage.policies.some((policy: any) => policy?.status === 'active')
+      : false,
+    hasExemption: data.exemption?.isCurrentlyExempt === true,
+    governingClassCode: pickString(data.classCodeDetails?.classCode),
+    partialSuccess: Boolean(body?.warning),
+  };
+}
+
+const SUMMARIZERS: { [K in ProfileSourceName]: (body: any) => NonNullable<CompanyProfile[K]> } = {
+  sunbiz: summarizeSunbiz,
+  dbpr: summarizeDbpr,
+  bbb: summarizeBbb,
+  reviews: summarizeReviews,
+  workersComp: summarizeWorkersComp,
+};
+
+/** Summarize one source into its own field; generic so each field gets its own summary type. */
+function applySummary<K extends ProfileSourceName>(profile: CompanyProfile, name: K, body: any): void {
+  profile[name] = SUMMARIZERS[name](body);
+}
+
+// -------------------
+// Fan-out
+// -------------------
+async function runSource(
+  baseUrl: string,
+  name: ProfileSourceName,
+  input: CompanyProfileInput,
+  timeoutMs: number
+): Promise<{ report: ProfileSourceReport; body: any }> {
+  const source = SOURCES[name];
+  const startTime = Date.now();
+
+  const unmet = source.precondition?.(input);
+  if (unmet) {
+    return { report: { status: 'error', durationMs: 0, error: unmet }, body: null };
+  }
+
+  try {
+    const response = await callInternalApi(
+      baseUrl,
+      source.path,
+      { ...source.buildBody(input), cache: input.cache },
+      timeoutMs
+    );
+    const classified = classifyResponse(source, response);
+    return {
+      report: {
+        ...classified,
+        durationMs: Date.now() - startTime,
+        httpStatus: response.status,
+        cache: response.body?.meta?.cache,
+      },
+      body: response.body,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      report: { status: 'error', durationMs: Date.now() - startTime, error: message },
+      body: null,
+    };
+  }
+}
+
+function classifyResponse(source: ProfileSource, response: InternalApiResponse): ClassifiedResponse {
+  try {
+    return source.classify(response);
+  } catch (error) {
+    return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Run every source lookup concurrently and merge the results into one profile.
+ * A failing or slow source only affects its own entry in `sources`.
+ */
+export async function buildCompanyProfile(
+  baseUrl: string,
+  input: CompanyProfileInput,
+  options: {
+    timeoutMs?: number;
+    sources?: ProfileSourceName[];
+    onSourceComplete?: (name: ProfileSourceName, report: ProfileSourceReport) => void;
+  } = {}
+): Promise<CompanyProfile> {
+  const timeoutMs = options.timeoutMs || SOURCE_TIMEOUT_MS;
+  const selected = options.sources?.length ? options.sources : PROFILE_SOURCES;
+
+  const profile: CompanyProfile = {
+    query: input,
+    sunbiz: null,
+    dbpr: null,
+    bbb: null,
+    reviews: null,
+    workersComp: null,
+    sources: {},
+    raw: {},
+  };
+
+  const outcomes = await Promise.all(
+    selected.map(async name => {
+      const outcome = await runSource(baseUrl, name, input, timeoutMs);
+      options.onSourceComplete?.(name, outcome.report);
+      return { name, ...outcome };
+    })
+  );
+
+  for (const { name, report, body } of outcomes) {
+    profile.sources[name] = report;
+    profile.raw[name] = body;
+
+    if (report.status === 'success') {
+      try {
+        applySummary(profile, name, body);
+      } catch (error) {
+        console.warn(`[companyProfile] Could not summarize ${name}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  return profile;
+}
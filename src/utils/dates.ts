@@ -0,0 +1,17 @@
+// -------------------
+// Date Helpers
+// -------------------
+
+/**
+ * Florida state sites show dates as MM/DD/YYYY; Apify items sometimes carry
+ * ISO strings. Returns YYYY-MM-DD, or '' when the value isn't a date.
+ */
+export function toIsoDate(value: unknown): string {
+  const text = typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return iso ? `${iso[1]}-${iso[2]}-${iso[3]}` : '';
+}
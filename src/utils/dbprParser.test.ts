@@ -0,0 +1,152 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  parseDbprComplaintsHtml,
+  parseDbprLicenseHtml,
+  parseDbprSearchResults,
+  rollUpDbprLicenses,
+  splitStatusExpires,
+} from '@/utils/dbprParser';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__/dbpr', name), 'utf8');
+
+const SEARCH_URL = 'https://www.myfloridalicense.com/wl11.asp?mode=2&search=Name';
+
+describe('parseDbprLicenseHtml', () => {
+  it('splits the licensee and DBA names out of the Name cell', () => {
+    const { license } = parseDbprLicenseHtml(fixture('license-detail.html'));
+
+    expect(license.licenseeName).toBe('SMITH, JOHN A');
+    expect(license.dbaName).toBe('ACME ROOFING LLC');
+  });
+
+  it('reads the license fields', () => {
+    const { license } = parseDbprLicenseHtml(fixture('license-detail.html'));
+
+    expect(license).toMatchObject({
+      licenseType: 'Certified Roofing Contractor',
+      rank: 'Cert Roofing',
+      licenseNumber: 'CCC1330000',
+      status: 'Current,Active',
+      originalIssueDate: '05/12/2015',
+      expirationDate: '08/31/2026',
+      mailingAddress: 'PO BOX 100, TAMPA, FL 33601',
+      licenseLocation: '123 MAIN ST, TAMPA, FL 33602',
+    });
+    // Read from the complaints page, not the detail page.
+    expect(license.complaints).toBeNull();
+  });
+
+  it('takes the first non-empty value of a repeated label', () => {
+    const { license, raw } = parseDbprLicenseHtml(fixture('license-detail.html'));
+
+    expect(license.mainAddress).toBe('123 MAIN ST, TAMPA, FL 33602, HILLSBOROUGH');
+    expect(raw['Main Address']).toBe('123 MAIN ST TAMPA, FL 33602 HILLSBOROUGH');
+  });
+
+  it('picks the qualifying agent from the related-license table', () => {
+    const { license } = parseDbprLicenseHtml(fixture('license-detail.html'));
+
+    expect(license.qualifier).toEqual({
+      name: 'DOE, JANE',
+      relationship: 'Qualifying Agent',
+      licenseNumber: 'CCC1329999',
+      rank: 'Cert Roofing',
+      status: 'Current,Active',
+      expires: '08/31/2026',
+    });
+  });
+
+  it('splits a combined Status/Expires cell and reads separate DBA labels', () => {
+    const { license } = parseDbprLicenseHtml(fixture('license-detail-status-expires.html'));
+
+    expect(license).toMatchObject({
+      licenseeName: 'SUNCOAST PAINTING INC',
+      dbaName: 'SUNCOAST PAINTERS',
+      status: 'Delinquent, Active',
+      expirationDate: '08/31/2022',
+      qualifier: null,
+    });
+  });
+});
+
+describe('splitStatusExpires', () => {
+  it('separates the status from the expiration date', () => {
+    expect(splitStatusExpires('Current, Active 08/31/2026')).toEqual({ status: 'Current, Active', expires: '08/31/2026' });
+    expect(splitStatusExpires('Null and Void')).toEqual({ status: 'Null and Void', expires: '' });
+  });
+});
+
+describe('parseDbprSearchResults', () => {
+  it('reads each result row with an absolute detail link', () => {
+    const candidates = parseDbprSearchResults(fixture('search-results.html'), SEARCH_URL);
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0]).toEqual({
+      name: 'SMITH, JOHN A',
+      nameType: 'Primary',
+      licenseType: 'Construction Industry',
+      licenseNumber: 'CCC1330000',
+      status: 'Current, Active',
+      expires: '08/31/2026',
+      address: '',
+      detailUrl: 'https://www.myfloridalicense.com/LicenseDetail.asp?SID=&id=111',
+    });
+    expect(candidates[1]).toMatchObject({ name: 'ACME ROOFING LLC', nameType: 'DBA', status: 'Delinquent, Active', expires: '08/31/2022' });
+  });
+
+  it('returns no candidates when nothing links to a detail page', () => {
+    expect(parseDbprSearchResults('<table><tr><td>No records found</td></tr></table>', SEARCH_URL)).toEqual([]);
+  });
+});
+
+describe('parseDbprComplaintsHtml', () => {
+  it('finds the complaints table by its header text', () => {
+    const complaints = parseDbprComplaintsHtml(fixture('complaints.html'));
+
+    expect(complaints).toEqual([
+      {
+        number: '2023012345',
+        class: 'Legally Sufficient',
+        incidentDate: '02/14/2023',
+        status: 'Closed',
+        disposition: 'Final Order',
+        dispositionDate: '09/01/2023',
+        discipline: 'Fine and Costs',
+      },
+      {
+        number: '2024004321',
+        class: 'Legally Sufficient',
+        incidentDate: '01/05/2024',
+        status: 'Open',
+        disposition: '',
+        dispositionDate: '',
+        discipline: '',
+      },
+    ]);
+  });
+
+  it('returns an empty list when the page says there are no complaints', () => {
+    expect(parseDbprComplaintsHtml(fixture('complaints-none.html'))).toEqual([]);
+  });
+
+  it('returns null when the complaints table is missing', () => {
+    expect(parseDbprComplaintsHtml('<html><body><p>Service unavailable</p></body></html>')).toBeNull();
+  });
+});
+
+describe('rollUpDbprLicenses', () => {
+  it('groups licenses by standing', () => {
+    const active = parseDbprLicenseHtml(fixture('license-detail.html')).license;
+    const delinquent = parseDbprLicenseHtml(fixture('license-detail-status-expires.html')).license;
+    active.complaints = parseDbprComplaintsHtml(fixture('complaints.html'));
+
+    expect(rollUpDbprLicenses([active, delinquent], new Date('2024-07-01T00:00:00Z'))).toEqual({
+      total: 2,
+      active: ['CCC1330000'],
+      expired: ['RG291100000'],
+      disciplined: ['CCC1330000'],
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import { JSDOM } from 'jsdom';
+import { toIsoDate } from '@/utils/dates';
+import { resolveColumns } from '@/utils/htmlTable';
+
+// -------------------
+// Type Definitions
+// -------------------
+
+/** One row of a myfloridalicense.com search results page. */
+export interface DbprCandidate {
+  name: string;
+  // "Primary" for the licensee, "DBA" for a trade name on the same license.
+  nameType: string;
+  licenseType: string;
+  licenseNumber: string;
+  status: string;
+  expires: string;
+  address: string;
+  detailUrl: string;
+}
+
+type CandidateField = Exclude<keyof DbprCandidate, 'detailUrl'> | 'statusExpires';
+
+export interface DbprComplaint {
+  number: string;
+  class: string;
+  incidentDate: string;
+  status: string;
+  disposition: string;
+  dispositionDate: string;
+  discipline: string;
+}
+
+/** The person who qualifies a business license, with their own license. */
+export interface DbprQualifier {
+  name: string;
+  relationship: string;
+  licenseNumber: string;
+  rank: string;
+  status: string;
+  expires: string;
+}
+
+/** A license detail page. Dates are as DBPR shows them (MM/DD/YYYY). */
+export interface DbprLicense {
+  licenseeName: string;
+  dbaName: string;
+  licenseType: string;
+  rank: string;
+  licenseNumber: string;
+  status: string;
+  originalIssueDate: string;
+  expirationDate: string;
+  mainAddress: string;
+  mailingAddress: string;
+  licenseLocation: string;
+  qualifier: DbprQualifier | null;
+  // Null until the complaints page has been read, or when it couldn't be.
+  complaints: DbprComplaint[] | null;
+}
+
+type QualifierField = keyof DbprQualifier;
+
+/** License numbers grouped by standing; a license can be both active and disciplined. */
+export interface DbprLicenseRollup {
+  total: number;
+  active: string[];
+  expired: string[];
+  disciplined: string[];
+}
+
+// -------------------
+// Configuration
+// -------------------
+const CANDIDATE_COLUMNS: [CandidateField, RegExp][] = [
+  ['licenseType', /license type/i],
+  ['nameType', /name type/i],
+  ['licenseNumber', /license number|number\/rank/i],
+  ['statusExpires', /status/i],
+  ['address', /address|location/i],
+  ['name', /name/i],
+];
+
+// Column order on the results page when the header row can't be matched.
+const DEFAULT_CANDIDATE_ORDER: CandidateField[] = ['licenseType', 'name', 'nameType', 'licenseNumber', 'statusExpires'];
+
+const QUALIFIER_COLUMNS: [QualifierField, RegExp][] = [
+  ['licenseNumber', /license number/i],
+  ['relationship', /relationship/i],
+  ['status', /status/i],
+  ['expires', /expir/i],
+  ['rank', /rank/i],
+  ['name', /related party|name/i],
+];
+
+const COMPLAINT_COLUMNS: [keyof DbprComplaint, RegExp][] = [
+  ['incidentDate', /incident/i],
+  ['dispositionDate', /disposition date/i],
+  ['disposition', /disposition/i],
+  ['discipline', /discipline/i],
+  ['class', /class/i],
+  ['status', /status/i],
+  ['number', /complaint|number/i],
+];
+
+// Column order on the complaints page when a header can't be matched.
+const DEFAULT_COMPLAINT_ORDER: (keyof DbprComplaint)[] = [
+  'number',
+  'class',
+  'incidentDate',
+  'status',
+  'disposition',
+  'dispositionDate',
+  'discipline',
+];
+
+const NO_COMPLAINTS = /no (public )?(license )?complaints/i;
+
+const DATE_PATTERN = /\d{1,2}\/\d{1,2}\/\d{4}/;
+
+const DISCIPLINED_STATUS = /revoked|suspend|probation|disciplin|emergency/i;
+const EXPIRED_STATUS = /delinquent|null and void|expired|inactive|retired/i;
+
+// -------------------
+// Helper Functions
+// -------------------
+const cleanText = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim();
+
+/** Cell text with <br> line breaks kept as separate lines. */
+function readLines(cell: Element | undefined): string[] {
+  if (!cell) return [];
+  const container = cell.ownerDocument.createElement('div');
+  container.innerHTML = cell.innerHTML.replace(/<br\s*\/?>/gi, '\n');
+  return (container.textContent || '').split('\n').map(line => cleanText(line)).filter(Boolean);
+}
+
+/**
+ * Every `Label:` cell paired with the lines of the cell after it, in page
+ * order. Labels can repeat, so callers pick the occurrence they need.
+ */
+function readLabelledCells(document: Document): [string, string[]][] {
+  const cells = Array.from(document.querySelectorAll('td'));
+  const pairs: [string, string[]][] = [];
+
+  cells.forEach((cell, index) => {
+    const label = cleanText(cell.textContent);
+    if (label.endsWith(':') && label.length > 1 && index + 1 < cells.length) {
+      pairs.push([label.slice(0, -1).trim(), readLines(cells[index + 1])]);
+    }
+  });
+
+  return pairs;
+}
+
+/** "Current, Active 08/31/2026" → status and expiration date. */
+export function splitStatusExpires(text: string): { status: string; expires: string } {
+  const expires = text.match(DATE_PATTERN)?.[0] || '';
+  const status = cleanText(text.replace(DATE_PATTERN, '')).replace(/[,;]+$/, '').trim();
+  return { status, expires };
+}
+
+// -------------------
+// Parsers
+// -------------------
+
+/**
+ * Parse a search results page into candidates: every row that links to a
+ * license detail page. `pageUrl` resolves the relative detail links.
+ */
+export function parseDbprSearchResults(html: string, pageUrl: string): DbprCandidate[] {
+  const { document } = new JSDOM(html, { url: pageUrl }).window;
+  // The page is laid out with nested tables; only the innermost rows are results.
+  const rows = Array.from(document.querySelectorAll('tr')).filter(
+    row => row.querySelector('a[href*="LicenseDetail"]') && !row.querySelector(':scope tr a[href*="LicenseDetail"]')
+  );
+  if (!rows.length) return [];
+
+  // The header row is the row in the same table that names the columns.
+  const table = rows[0].closest('table');
+  const headerRow = table
+    ? Array.from(table.querySelectorAll('tr')).find(row => /license type/i.test(row.textContent || '') && !rows.includes(row))
+    : undefined;
+  const headers = headerRow ? Array.from(headerRow.children).map(cell => cleanText(cell.textContent)) : [];
+
+  const columns = resolveColumns(headers, CANDIDATE_COLUMNS);
+  if (columns.name === undefined) {
+    DEFAULT_CANDIDATE_ORDER.forEach((field, index) => {
+      columns[field] = index;
+    });
+  }
+
+  return rows.map(row => {
+    const cells = Array.from(row.querySelectorAll(':scope > td'));
+    const read = (field: CandidateField) => {
+      const index = columns[field];
+      return index === undefined ? [] : readLines(cells[index]);
+    };
+
+    const anchor = row.querySelector<HTMLAnchorElement>('a[href*="LicenseDetail"]');
+    // The number cell may also carry the rank, e.g. "CGC1234567" over "Cert General".
+    const [licenseNumber = ''] = read('licenseNumber');
+    const { status, expires } = splitStatusExpires(read('statusExpires').join(' '));
+
+    return {
+      name: cleanText(anchor?.textContent) || read('name').join(' '),
+      nameType: read('nameType').join(' '),
+      licenseType: read('licenseType').join(' '),
+      licenseNumber,
+      status,
+      expires,
+      address: read('address').join(', '),
+      detailUrl: anchor?.href || '',
+    };
+  });
+}
+
+/**
+ * The qualifier row of the related-license table, e.g. the certified
+ * contractor who qualifies a business's license.
+ */
+function readQualifier(document: Document): DbprQualifier | null {
+  const headerRow = Array.from(document.querySelectorAll('tr')).find(
+    row => /relationship/i.test(row.textContent || '') && !row.querySelector(':scope tr')
+  );
+  if (!headerRow) return null;
+
+  const headers = Array.from(headerRow.children).map(cell => cleanText(cell.textContent));
+  const columns = resolveColumns(headers, QUALIFIER_COLUMNS);
+  const rows = Array.from(headerRow.parentElement?.children || []).filter(row => row !== headerRow);
+
+  for (const row of rows) {
+    const cells = Array.from(row.children);
+    const read = (field: QualifierField) => {
+      const index = columns[field];
+      return index === undefined ? '' : readLines(cells[index]).join(' ');
+    };
+
+    if (/qualif/i.test(read('relationship'))) {
+      return {
+        name: read('name'),
+        relationship: read('relationship'),
+        licenseNumber: read('licenseNumber'),
+        rank: read('rank'),
+        status: read('status'),
+        expires: read('expires'),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a license detail page into a typed license. `raw` is the old
+ * label/value map (first non-empty value per label), kept for debugging.
+ * Complaints live on a separate page; see `parseDbprComplaintsHtml`.
+ */
+export function parseDbprLicenseHtml(html: string): { license: DbprLicense; raw: Record<string, string> } {
+  const { document } = new JSDOM(html).window;
+  const pairs = readLabelledCells(document);
+
+  const raw: Record<string, string> = {};
+  for (const [label, lines] of pairs) {
+    const value = lines.join(' ');
+    if (label && (value || !raw[label])) raw[label] = value;
+  }
+
+  const find = (pattern: RegExp) => pairs.find(([label, lines]) => pattern.test(label) && lines.length)?.[1] || [];
+  const text = (pattern: RegExp) => find(pattern).join(' ');
+
+  // The Name cell lists "SMITH, JOHN (Primary Name)" over "ACME ROOFING (DBA Name)"
+  const nameLines = pairs.filter(([label]) => /^(licensee )?name$/i.test(label)).flatMap(([, lines]) => lines);
+  const tagged = (tag: RegExp) => cleanText(nameLines.find(line => tag.test(line))?.replace(/\([^)]*\)/g, ''));
+  const licenseeName =
+    tagged(/\(primary name\)/i) || text(/^primary name$/i) || cleanText(nameLines[0]?.replace(/\([^)]*\)/g, ''));
+  const dbaName = tagged(/\(dba name\)/i) || text(/^dba( name)?$/i);
+
+  const statusExpires = splitStatusExpires(text(/^status(\/expires)?$/i));
+
+  return {
+    license: {
+      licenseeName,
+      dbaName,
+      licenseType: text(/^license type$/i),
+      rank: text(/^rank$/i),
+      licenseNumber: text(/^license number$/i),
+      status: statusExpires.status,
+      originalIssueDate: text(/licensure date|original issue|issue date/i),
+      expirationDate: text(/^(expires|expiration date)$/i) || statusExpires.expires,
+      mainAddress: find(/^main address$/i).join(', '),
+      mailingAddress: find(/^mailing address$/i).join(', '),
+      licenseLocation: find(/^license location( address)?$/i).join(', '),
+      qualifier: readQualifier(document),
+      complaints: null,
+    },
+    raw,
+  };
+}
+
+/**
+ * Parse the license complaints page: one record per row under the header row
+ * naming the complaint and incident columns. Returns an empty list only when
+ * the page says there are no complaints, and null when the complaints table
+ * can't be found, so a layout change doesn't read as a clean record.
+ */
+export function parseDbprComplaintsHtml(html: string): DbprComplaint[] | null {
+  const { document } = new JSDOM(html).window;
+  // The page is laid out with nested tables; the header is an innermost row.
+  const headerRow = Array.from(document.querySelectorAll('tr')).find(row => {
+    const text = row.textContent || '';
+    return /incident/i.test(text) && /complaint|number/i.test(text) && !row.querySelector(':scope tr');
+  });
+  if (!headerRow) {
+    return NO_COMPLAINTS.test(document.body?.textContent || '') ? [] : null;
+  }
+
+  const headers = Array.from(headerRow.children).map(cell => cleanText(cell.textContent));
+  const columns = resolveColumns(headers, COMPLAINT_COLUMNS);
+  if (columns.number === undefined) {
+    DEFAULT_COMPLAINT_ORDER.forEach((field, index) => {
+      columns[field] = index;
+    });
+  }
+
+  return Array.from(headerRow.parentElement?.children || [])
+    .filter(row => row !== headerRow)
+    .map(row => Array.from(row.children).map(cell => cleanText(cell.textContent)))
+    .filter(cells => cells.length > 1 && cells.some(Boolean))
+    .map(cells => {
+      const read = (field: keyof DbprComplaint) => {
+        const index = columns[field];
+        return index === undefined ? '' : cells[index] || '';
+      };
+      return {
+        number: read('number'),
+        class: read('class'),
+        incidentDate: read('incidentDate'),
+        status: read('status'),
+        disposition: read('disposition'),
+        dispositionDate: read('dispositionDate'),
+        discipline: read('discipline'),
+      };
+    });
+}
+
+/**
+ * Group license detail records by standing. Expired covers lapsed statuses and
+ * past expiration dates; disciplined covers disciplinary statuses and any
+ * complaint that ended in discipline.
+ */
+export function rollUpDbprLicenses(licenses: DbprLicense[], now = new Date()): DbprLicenseRollup {
+  const today = now.toISOString().slice(0, 10);
+  const rollup: DbprLicenseRollup = { total: licenses.length, active: [], expired: [], disciplined: [] };
+
+  for (const license of licenses) {
+    const id = license.licenseNumber || license.licenseeName;
+    const { status } = license;
+    const expires = toIsoDate(license.expirationDate);
+
+    if (DISCIPLINED_STATUS.test(status) || license.complaints?.some(complaint => complaint.discipline)) {
+      rollup.disciplined.push(id);
+    }
+    if (EXPIRED_STATUS.test(status) || (expires && expires < today)) {
+      rollup.expired.push(id);
+    } else if (/active|current/i.test(status)) {
+      rollup.active.push(id);
+    }
+  }
+
+  return rollup;
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Local JSON persistence used when Supabase isn't configured. Defaults to the
+ * OS temp directory because it is the only writable path on Vercel.
+ */
+export function getLocalDataDir(): string {
+  return process.env.LOCAL_DATA_DIR || path.join(os.tmpdir(), 'company-lookups');
+}
+
+function resolvePath(relativePath: string): string {
+  return path.join(getLocalDataDir(), relativePath);
+}
+
+export async function readJsonFile<T>(relativePath: string): Promise<T | null> {
+  try {
+    const text = await fs.readFile(resolvePath(relativePath), 'utf8');
+    return JSON.parse(text) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function writeJsonFile(relativePath: string, value: unknown): Promise<void> {
+  const filePath = resolvePath(relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  // Write to a temp file first so a concurrent reader never sees half a document.
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/** Names (without `.json`) of the documents directly inside a directory. */
+export async function listJsonFiles(relativeDir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(resolvePath(relativeDir));
+    return entries.filter(name => name.endsWith('.json')).map(name => name.slice(0, -'.json'.length));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+export async function deleteJsonFile(relativePath: string): Promise<void> {
+  await fs.rm(resolvePath(relativePath), { force: true });
+}
+
+/**
+ * Write a document only if it doesn't exist yet. Returns false when another
+ * writer got there first, so callers can use it as a lock.
+ */
+export async function createJsonFile(relativePath: string, value: unknown): Promise<boolean> {
+  const filePath = resolvePath(relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  try {
+    await fs.writeFile(filePath, JSON.stringify(value), { encoding: 'utf8', flag: 'wx' });
+    return true;
+  } catch (error: any) {
+    if (error?.code === 'EEXIST') return false;
+    throw error;
+  }
+}
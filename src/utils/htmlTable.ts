@@ -0,0 +1,22 @@
+// -------------------
+// Table Helpers
+// -------------------
+
+/**
+ * Map each field to the first unclaimed header matching its pattern. Fields
+ * are resolved in order, so list specific patterns before looser ones.
+ */
+export function resolveColumns<F extends string>(headers: string[], columns: [F, RegExp][]): Partial<Record<F, number>> {
+  const claimed = new Set<number>();
+  const resolved: Partial<Record<F, number>> = {};
+
+  for (const [field, pattern] of columns) {
+    const index = headers.findIndex((header, i) => !claimed.has(i) && pattern.test(header));
+    if (index >= 0) {
+      resolved[field] = index;
+      claimed.add(index);
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,67 @@
+import type { NextApiRequest } from 'next';
+
+export type InternalApiResponse = {
+  status: number;
+  body: any;
+};
+
+/**
+ * Resolve the base URL used to call sibling API routes. Each route runs in its
+ * own function invocation, so fanning out over HTTP keeps one slow scraper from
+ * eating another's time and memory budget.
+ */
+export function getInternalBaseUrl(req: NextApiRequest): string {
+  const configured = process.env.INTERNAL_API_BASE_URL;
+  if (configured) {
+    return configured.replace(/\/$/, '');
+  }
+
+  const forwardedHost = req.headers['x-forwarded-host'];
+  const host = (Array.isArray(forwardedHost) ? forwardedHost[0] : forwardedHost) || req.headers.host || 'localhost:3000';
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const proto =
+    (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) ||
+    (/^(localhost|127\.0\.0\.1)/.test(host) ? 'http' : 'https');
+
+  return `${proto}://${host}`;
+}
+
+/**
+ * POST a JSON body to a sibling API route and return its status and parsed body.
+ * Non-2xx responses are returned, not thrown; only network failures and timeouts throw.
+ */
+export async function callInternalApi(
+  baseUrl: string,
+  path: string,
+  body: Record<string, unknown>,
+  timeoutMs: number
+): Promise<InternalApiResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    const text = await response.text();
+    let parsed: any = null;
+    try {
+      parsed = text ? JSON.parse(text) : null;
+    } catch {
+      parsed = { error: text.slice(0, 300) };
+    }
+
+    return { status: response.status, body: parsed };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`${path} timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,274 @@
+import crypto from 'crypto';
+import { buildCompanyProfile, CompanyProfileInput } from '@/utils/companyProfile';
+import { callInternalApi } from '@/utils/internalApi';
+import { claimJob, getJob, Job, JobEvent, JobType, newJobEvent, saveJob } from '@/utils/jobStore';
+import { checkCallbackUrl } from '@/utils/outboundUrl';
+import { secretMatches } from '@/utils/requestAuth';
+
+// -------------------
+// Configuration
+// -------------------
+const JOB_LOOKUP_TIMEOUT_MS = Number(process.env.JOB_LOOKUP_TIMEOUT_MS) || 295000;
+const CALLBACK_TIMEOUT_MS = 15000;
+// How long job creation waits for the runner request to leave this instance.
+const DISPATCH_GRACE_MS = 1000;
+// A running job older than the runner's maxDuration (300s in vercel.json) was
+// cut off without recording an outcome; a queued job this old was never picked up.
+const JOB_MAX_RUNTIME_MS = Number(process.env.JOB_MAX_RUNTIME_MS) || 330000;
+const JOB_QUEUE_TIMEOUT_MS = Number(process.env.JOB_QUEUE_TIMEOUT_MS) || 120000;
+// Apify runs aren't bound by the runner's limit, but a webhook that never arrives must not leave a job running.
+const JOB_WEBHOOK_TIMEOUT_MS = Number(process.env.JOB_WEBHOOK_TIMEOUT_MS) || 15 * 60 * 1000;
+
+// Each route is its own function; vercel.json gives every one of them the same
+// 300s maxDuration as /api/jobs/run, so a proxied lookup isn't cut off first.
+const LOOKUP_PATHS: Record<Exclude<JobType, 'companyProfile'>, string> = {
+  sunbiz: '/api/scrapeSunbiz',
+  sunbizSearch: '/api/scrapeSunbizSearch',
+  sunbizFictitiousName: '/api/scrapeSunbizFictitiousName',
+  dbpr: '/api/scrapeCompany',
+  bbb: '/api/bbb-data',
+  reviews: '/api/scrapeReviews',
+  workersComp: '/api/scrapeWorkersComp',
+};
+
+// -------------------
+// Helper Functions
+// -------------------
+
+/**
+ * Keeps the job document in memory and persists every change in order, so
+ * progress events fired concurrently never overwrite one another.
+ */
+function createJobRecorder(job: Job) {
+  let pending: Promise<void> = Promise.resolve();
+
+  const persist = () => {
+    pending = pending
+      .then(() => saveJob(job))
+      .catch(error => {
+        console.error(`[jobs] Failed to persist job ${job.id}:`, error instanceof Error ? error.message : String(error));
+      });
+    return pending;
+  };
+
+  return {
+    record(event: JobEvent) {
+      job.events.push(event);
+      return persist();
+    },
+    persist,
+  };
+}
+
+export function signCallbackBody(body: string): string | null {
+  const secret = process.env.JOBS_CALLBACK_SECRET;
+  if (!secret) return null;
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Open without JOBS_RUNNER_SECRET only outside production, so local runs work
+ * without configuration but a deployment never runs jobs for anyone.
+ */
+export function runnerSecretMatches(provided: unknown): boolean {
+  const secret = process.env.JOBS_RUNNER_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV !== 'production') return true;
+    console.error('[jobs] JOBS_RUNNER_SECRET is not set; rejecting runner request');
+    return false;
+  }
+  return secretMatches(provided, secret);
+}
+
+// -------------------
+// Execution
+// -------------------
+async function executeJob(baseUrl: string, job: Job, record: (event: JobEvent) => Promise<void>): Promise<any> {
+  if (job.type === 'companyProfile') {
+    return buildCompanyProfile(baseUrl, job.input as unknown as CompanyProfileInput, {
+      timeoutMs: JOB_LOOKUP_TIMEOUT_MS,
+      onSourceComplete: (name, report) => {
+        void record(newJobEvent('progress', `${name} finished with ${report.status}`, { source: name, ...report }));
+      },
+    });
+  }
+
+  const path = LOOKUP_PATHS[job.type];
+  const response = await callInternalApi(baseUrl, path, job.input, JOB_LOOKUP_TIMEOUT_MS);
+  await record(newJobEvent('progress', `${path} responded with ${response.status}`, { httpStatus: response.status }));
+
+  if (response.status < 200 || response.status >= 300) {
+    const message = response.body?.error || response.body?.message || `Lookup failed with status ${response.status}`;
+    throw Object.assign(new Error(String(message)), { result: response.body });
+  }
+
+  return response.body;
+}
+
+async function deliverCallback(job: Job): Promise<Job['callback']> {
+  if (!job.callbackUrl) return null;
+
+  // Checked again at delivery: the host may resolve differently than when the job was queued.
+  const callbackError = await checkCallbackUrl(job.callbackUrl);
+  if (callbackError) {
+    return { status: 'failed', error: callbackError, at: new Date().toISOString() };
+  }
+
+  const body = JSON.stringify({
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    result: job.result,
+    error: job.error,
+    finishedAt: job.finishedAt,
+  });
+  const signature = signCallbackBody(body);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(job.callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(signature ? { 'X-Job-Signature': `sha256=${signature}` } : {}),
+      },
+      body,
+      signal: controller.signal,
+    });
+
+    return {
+      status: response.ok ? 'delivered' : 'failed',
+      httpStatus: response.status,
+      at: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      at: new Date().toISOString(),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Record the final outcome of a job and deliver its callback.
+ */
+async function settleJob(
+  job: Job,
+  recorder: ReturnType<typeof createJobRecorder>,
+  outcome: { result: any } | { error: string; result?: any }
+): Promise<Job> {
+  job.finishedAt = new Date().toISOString();
+
+  if ('error' in outcome) {
+    job.status = 'failed';
+    job.error = outcome.error;
+    job.result = outcome.result ?? null;
+    await recorder.record(newJobEvent('failed', job.error));
+  } else {
+    job.status = 'succeeded';
+    job.result = outcome.result;
+    await recorder.record(newJobEvent('succeeded', 'Job completed'));
+  }
+
+  if (job.callbackUrl) {
+    job.callback = await deliverCallback(job);
+    await recorder.record(
+      newJobEvent('callback', `Callback ${job.callback?.status}`, {
+        httpStatus: job.callback?.httpStatus,
+        error: job.callback?.error,
+      })
+    );
+  }
+
+  return job;
+}
+
+/**
+ * Finish a job whose work happened elsewhere, e.g. an Apify run reported
+ * through its webhook.
+ */
+export async function completeJob(job: Job, outcome: { result: any } | { error: string; result?: any }): Promise<Job> {
+  return settleJob(job, createJobRecorder(job), outcome);
+}
+
+/**
+ * Fail a job whose runner died or never started: running for longer than the
+ * runner can live (or, for Apify webhook jobs, with no webhook in time), or
+ * still queued long after it was created. Called when the job is read, so a
+ * stuck job settles (and its callback fires) the next time anyone asks.
+ */
+export async function expireStaleJob(job: Job): Promise<Job> {
+  const now = Date.now();
+
+  if (job.status === 'queued' && now - Date.parse(job.createdAt) > JOB_QUEUE_TIMEOUT_MS) {
+    // Claimed like a run, so a runner that shows up late can't start it too.
+    const claimed = await claimJob(job.id, stale => {
+      stale.status = 'running';
+    });
+    if (!claimed) return (await getJob(job.id)) || job;
+    console.warn(`[jobs] Job ${job.id} was never started; marking it failed`);
+    return completeJob(claimed, { error: 'Job was never started by the runner.' });
+  }
+
+  const maxRuntimeMs = job.apifyRun ? JOB_WEBHOOK_TIMEOUT_MS : JOB_MAX_RUNTIME_MS;
+  if (job.status === 'running' && job.startedAt && now - Date.parse(job.startedAt) > maxRuntimeMs) {
+    console.warn(`[jobs] Job ${job.id} exceeded its time limit; marking it failed`);
+    return completeJob(job, {
+      error: job.apifyRun
+        ? `No webhook arrived for Apify run ${job.apifyRun.runId} before the job timed out.`
+        : 'Job timed out before it finished.',
+    });
+  }
+
+  return job;
+}
+
+/**
+ * Run a queued job to completion, recording progress, the final result and
+ * the callback delivery on the persisted job. Only the caller that claims the
+ * job runs it; a duplicate dispatch gets the job as it stands.
+ */
+export async function runJob(baseUrl: string, id: string): Promise<Job | null> {
+  const job = await claimJob(id, claimed => {
+    claimed.status = 'running';
+    claimed.startedAt = new Date().toISOString();
+  });
+  if (!job) return getJob(id);
+
+  const recorder = createJobRecorder(job);
+  await recorder.record(newJobEvent('started', `Running ${job.type} lookup`));
+
+  try {
+    const result = await executeJob(baseUrl, job, event => recorder.record(event));
+    return await settleJob(job, recorder, { result });
+  } catch (error) {
+    return settleJob(job, recorder, {
+      error: error instanceof Error ? error.message : String(error),
+      result: (error as any)?.result ?? null,
+    });
+  }
+}
+
+/**
+ * Start the job on a separate invocation of `/api/jobs/run`. Only waits long
+ * enough for the request to be sent; the runner keeps going on its own.
+ */
+export async function dispatchJob(baseUrl: string, id: string): Promise<void> {
+  const secret = process.env.JOBS_RUNNER_SECRET;
+  const request = fetch(`${baseUrl}/api/jobs/run`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(secret ? { 'X-Jobs-Secret': secret } : {}),
+    },
+    body: JSON.stringify({ id }),
+  }).catch(error => {
+    console.error(`[jobs] Dispatch of job ${id} failed:`, error instanceof Error ? error.message : String(error));
+  });
+
+  await Promise.race([request, new Promise(resolve => setTimeout(resolve, DISPATCH_GRACE_MS))]);
+}
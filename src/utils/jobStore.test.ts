@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { claimJob, createJob, getJob, validateJobInput } from '@/utils/jobStore';
+
+describe('claimJob (file store)', () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-test-'));
+    vi.stubEnv('LOCAL_DATA_DIR', dataDir);
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('lets only one of two concurrent callers claim a queued job', async () => {
+    const job = await createJob({ type: 'dbpr', input: { licenseNumber: 'CCC1330000' } });
+    const start = (claimed: typeof job) => {
+      claimed.status = 'running';
+    };
+
+    const claims = await Promise.all([claimJob(job.id, start), claimJob(job.id, start)]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect((await getJob(job.id))?.status).toBe('running');
+    expect(await claimJob(job.id, start)).toBeNull();
+  });
+});
+
+describe('validateJobInput', () => {
+  it('requires one of the fields the route needs', () => {
+    expect(validateJobInput('dbpr', { city: 'Tampa' })).toEqual({
+      error: 'dbpr jobs need one of companyName, licenseNumber, firstName, lastName.',
+    });
+    expect(validateJobInput('bbb', { companyName: 'Acme' })).toEqual({ error: 'bbb jobs need companyName, city and state.' });
+    expect(validateJobInput('dbpr', { licenseNumber: 'CCC1330000' })).toEqual({ input: { licenseNumber: 'CCC1330000' } });
+  });
+
+  it('reduces company profile input to the fields it reads', () => {
+    expect(validateJobInput('companyProfile', { companyName: ' Acme Roofing LLC ', fein: 591234567, extra: { a: 1 } })).toEqual({
+      input: { companyName: 'Acme Roofing LLC', cache: 'prefer' },
+    });
+    expect(validateJobInput('companyProfile', { fein: '591234567' })).toEqual({ error: 'companyProfile jobs need companyName.' });
+  });
+});
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import { parseCacheMode } from '@/utils/resultCache';
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { createJsonFile, readJsonFile, writeJsonFile } from '@/utils/fileStore';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type JobType =
+  | 'companyProfile'
+  | 'sunbiz'
+  | 'sunbizSearch'
+  | 'sunbizFictitiousName'
+  | 'dbpr'
+  | 'bbb'
+  | 'reviews'
+  | 'workersComp';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobEvent {
+  at: string;
+  type: 'queued' | 'started' | 'progress' | 'succeeded' | 'failed' | 'callback';
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  input: Record<string, unknown>;
+  events: JobEvent[];
+  result: any;
+  error: string | null;
+  callbackUrl: string | null;
+  callback: { status: 'delivered' | 'failed'; httpStatus?: number; error?: string; at: string } | null;
+  // Set for jobs that wait on an Apify webhook instead of running in /api/jobs/run.
+  apifyRun?: { actorId: string; runId: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// -------------------
+// Configuration
+// -------------------
+const JOBS_TABLE = 'lookup_jobs';
+
+export const JOB_TYPES: JobType[] = [
+  'companyProfile',
+  'sunbiz',
+  'sunbizSearch',
+  'sunbizFictitiousName',
+  'dbpr',
+  'bbb',
+  'reviews',
+  'workersComp',
+];
+
+// Each job type needs at least one of these fields, as its route does; the
+// route checks the rest when the job runs.
+const REQUIRED_INPUT: Record<JobType, string[]> = {
+  companyProfile: ['companyName'],
+  sunbiz: ['companyName', 'documentNumber'],
+  sunbizSearch: ['companyName', 'searchTerm', 'cursor'],
+  sunbizFictitiousName: ['fictitiousName', 'registrationNumber'],
+  dbpr: ['companyName', 'licenseNumber', 'firstName', 'lastName'],
+  bbb: ['companyName'],
+  reviews: ['companyName'],
+  workersComp: ['companyName', 'fein', 'policyNumber'],
+};
+
+const PROFILE_INPUT_FIELDS = ['companyName', 'documentNumber', 'licenseNumber', 'fein', 'city', 'state'];
+
+// -------------------
+// Helper Functions
+// -------------------
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function jobFilePath(id: string): string {
+  return `jobs/${id}.json`;
+}
+
+function jobClaimFilePath(id: string): string {
+  return `job-claims/${id}.json`;
+}
+
+export function isJobId(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+}
+
+/**
+ * Check a job's input when it is created rather than when it runs. Company
+ * profile input is reduced to the fields `buildCompanyProfile` reads, since
+ * it is passed straight through instead of going to a route.
+ */
+export function validateJobInput(
+  type: JobType,
+  input: Record<string, unknown>
+): { input: Record<string, unknown> } | { error: string } {
+  const required = REQUIRED_INPUT[type];
+  if (!required.some(field => optionalString(input[field]))) {
+    return { error: `${type} jobs need ${required.length > 1 ? 'one of ' : ''}${required.join(', ')}.` };
+  }
+
+  if (type === 'bbb' && (!optionalString(input.city) || !optionalString(input.state))) {
+    return { error: 'bbb jobs need companyName, city and state.' };
+  }
+
+  if (type === 'companyProfile') {
+    const profileInput: Record<string, unknown> = Object.fromEntries(
+      PROFILE_INPUT_FIELDS.map(field => [field, optionalString(input[field])]).filter(([, value]) => value !== undefined)
+    );
+    return { input: { ...profileInput, cache: parseCacheMode(input.cache) } };
+  }
+
+  return { input };
+}
+
+export function newJobEvent(type: JobEvent['type'], message: string, data?: Record<string, unknown>): JobEvent {
+  return { at: new Date().toISOString(), type, message, ...(data ? { data } : {}) };
+}
+
+// -------------------
+// Storage
+// -------------------
+export async function saveJob(job: Job): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { error } = await supabase.from(JOBS_TABLE).upsert(
+      {
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        job,
+        created_at: job.createdAt,
+        updated_at: job.updatedAt,
+      },
+      { onConflict: 'id' }
+    );
+    if (error) throw new Error(`Job save failed: ${error.message}`);
+    return;
+  }
+
+  await writeJsonFile(jobFilePath(job.id), job);
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  if (!isJobId(id)) return null;
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase.from(JOBS_TABLE).select('job').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Job read failed: ${error.message}`);
+    return data ? (data.job as Job) : null;
+  }
+
+  return readJsonFile<Job>(jobFilePath(id));
+}
+
+/**
+ * Move a queued job to running for exactly one caller. `start` applies the
+ * running state to the job document; the write only lands if the stored job
+ * is still queued, so a duplicate dispatch gets null and must not run it.
+ */
+export async function claimJob(id: string, start: (job: Job) => void): Promise<Job | null> {
+  const job = await getJob(id);
+  if (!job || job.status !== 'queued') return null;
+
+  start(job);
+  job.updatedAt = new Date().toISOString();
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(JOBS_TABLE)
+      .update({ status: job.status, job, updated_at: job.updatedAt })
+      .eq('id', id)
+      .eq('status', 'queued')
+      .select('id');
+    if (error) throw new Error(`Job claim failed: ${error.message}`);
+    return data && data.length ? job : null;
+  }
+
+  // Without a database the claim file is the lock: only one writer can create it.
+  if (!(await createJsonFile(jobClaimFilePath(id), { id, claimedAt: job.updatedAt }))) return null;
+  await writeJsonFile(jobFilePath(id), job);
+  return job;
+}
+
+export async function createJob(input: {
+  type: JobType;
+  input: Record<string, unknown>;
+  callbackUrl?: string | null;
+}): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type: input.type,
+    status: 'queued',
+    input: input.input,
+    events: [newJobEvent('queued', 'Job queued')],
+    result: null,
+    error: null,
+    callbackUrl: input.callbackUrl || null,
+    callback: null,
+    createdAt: now,
+    updatedAt: now,
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  await saveJob(job);
+  return job;
+}
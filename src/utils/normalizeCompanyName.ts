@@ -26,4 +26,17 @@ export function getAndAmpersandVariant(name: string): string | null {
     return name.replace(/ & /g, ' and ');
   }
   return null;
+}
+
+/**
+ * Split "Legal Name d/b/a Trade Name" into its parts. The legal name is the
+ * Sunbiz entity; the trade name is a separate fictitious name filing.
+ */
+export function splitDbaName(name: string): { legalName: string; dbaName: string } | null {
+  const match = name.match(/^(.+?)[\s,]+(?:d\/b\/a|d\.b\.a\.?|dba|doing business as)[\s:]+(.+)$/i);
+  if (!match) return null;
+
+  const legalName = match[1].trim();
+  const dbaName = match[2].trim();
+  return legalName && dbaName ? { legalName, dbaName } : null;
 }
\ No newline at end of file
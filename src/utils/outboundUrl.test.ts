@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { checkCallbackUrl, isPrivateAddress } from '@/utils/outboundUrl';
+
+describe('isPrivateAddress', () => {
+  it('flags loopback, private and link-local addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', 'fe80::1', '::ffff:10.0.0.1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('checkCallbackUrl', () => {
+  it('accepts an https URL on a public address', async () => {
+    expect(await checkCallbackUrl('https://8.8.8.8/hooks/jobs')).toBeNull();
+  });
+
+  it('rejects plain http and malformed URLs', async () => {
+    expect(await checkCallbackUrl('http://8.8.8.8/hooks')).toMatch(/https/);
+    expect(await checkCallbackUrl('not a url')).toMatch(/valid URL/);
+  });
+
+  it('rejects private and metadata hosts', async () => {
+    expect(await checkCallbackUrl('https://localhost/hooks')).toMatch(/private/);
+    expect(await checkCallbackUrl('https://169.254.169.254/latest/meta-data')).toMatch(/private/);
+    expect(await checkCallbackUrl('https://[::1]/hooks')).toMatch(/private/);
+  });
+});
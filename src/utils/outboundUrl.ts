@@ -0,0 +1,77 @@
+import { promises as dns } from 'dns';
+import net from 'net';
+
+// -------------------
+// Configuration
+// -------------------
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata) and unspecified ranges.
+const PRIVATE_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+];
+
+// -------------------
+// Helper Functions
+// -------------------
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((total, part) => total * 256 + Number(part), 0);
+}
+
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4.some(([base, bits]) => {
+      const size = 2 ** (32 - bits);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(base) / size);
+    });
+  }
+
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  // Unspecified, loopback, unique local (fc00::/7) and link-local (fe80::/10).
+  return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+}
+
+// -------------------
+// Validation
+// -------------------
+
+/**
+ * Check a caller-supplied URL that the server will POST to later (job
+ * callbacks). It must be https and must not resolve to a private, loopback or
+ * link-local address. Returns an error message naming the field as `label`,
+ * or null when the URL is fine.
+ */
+export async function checkCallbackUrl(value: unknown, label = 'Callback URL'): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    return `${label} must be a valid URL.`;
+  }
+  if (url.protocol !== 'https:') return `${label} must use https.`;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (/^localhost$|\.localhost$|\.internal$|\.local$/i.test(hostname)) {
+    return `${label} must not point at a private host.`;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(hostname) ? [hostname] : (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+  } catch {
+    return `${label} host could not be resolved.`;
+  }
+  if (!addresses.length || addresses.some(isPrivateAddress)) {
+    return `${label} must not point at a private host.`;
+  }
+
+  return null;
+}
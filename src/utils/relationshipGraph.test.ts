@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { findRelatedEntities, indexSunbizEntity } from '@/utils/relationshipGraph';
+
+const detail = (documentNumber: string, entityName: string) => ({
+  document_number: documentNumber,
+  entity_name: entityName,
+  status: 'ACTIVE',
+  officers: [{ Name: 'DOE, JANE', Title: 'MGR' }],
+});
+
+describe('indexSunbizEntity (file store)', () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'relationships-test-'));
+    vi.stubEnv('LOCAL_DATA_DIR', dataDir);
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('keeps both of two entities indexed at the same time', async () => {
+    await Promise.all([
+      indexSunbizEntity(detail('L19000012345', 'ACME ROOFING LLC')),
+      indexSunbizEntity(detail('L20000067890', 'ACME PAINTING LLC')),
+    ]);
+
+    const related = await findRelatedEntities('L19000012345', 1);
+
+    expect(related?.entity.entityName).toBe('ACME ROOFING LLC');
+    expect(related?.connections.map(connection => connection.documentNumber)).toEqual(['L20000067890']);
+  });
+});
@@ -0,0 +1,379 @@
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { listJsonFiles, readJsonFile, writeJsonFile } from '@/utils/fileStore';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type RelationshipNodeType = 'person' | 'address';
+
+export type RelationshipRole =
+  | 'officer'
+  | 'registered_agent'
+  | 'principal_address'
+  | 'mailing_address'
+  | 'registered_agent_address'
+  | 'officer_address';
+
+export interface GraphEntity {
+  documentNumber: string;
+  entityName: string;
+  status: string;
+  indexedAt: string;
+}
+
+/** One edge from an entity to a person or address node. */
+export interface GraphLink {
+  documentNumber: string;
+  nodeType: RelationshipNodeType;
+  nodeKey: string;
+  label: string;
+  role: RelationshipRole;
+  // Officer title (e.g. MGR, P) for officer links.
+  title?: string;
+}
+
+export interface RelationshipReason {
+  type: RelationshipNodeType;
+  value: string;
+  // The already-connected entity this link was found through, and the roles on each side.
+  via: string;
+  viaRole: RelationshipRole;
+  role: RelationshipRole;
+  description: string;
+}
+
+export interface RelatedEntity {
+  documentNumber: string;
+  entityName: string;
+  status: string;
+  depth: number;
+  reasons: RelationshipReason[];
+}
+
+export interface RelationshipResult {
+  entity: GraphEntity;
+  depth: number;
+  connections: RelatedEntity[];
+  // People and addresses shared by too many entities to mean anything (registered agent services, virtual offices).
+  skippedHubs: { type: RelationshipNodeType; value: string; entityCount: number }[];
+}
+
+// One file per entity, so indexing two entities at once never loses either.
+type EntityFile = {
+  entity: GraphEntity;
+  links: GraphLink[];
+};
+
+// -------------------
+// Configuration
+// -------------------
+const ENTITIES_TABLE = 'relationship_entities';
+const LINKS_TABLE = 'relationship_links';
+const INDEX_FUNCTION = 'index_relationship_entity';
+const ENTITY_DIR = 'relationships/entities';
+export const MAX_RELATIONSHIP_DEPTH = 3;
+const HUB_LIMIT = Number(process.env.RELATIONSHIP_HUB_LIMIT) || 25;
+
+const ROLE_LABELS: Record<RelationshipRole, string> = {
+  officer: 'officer',
+  registered_agent: 'registered agent',
+  principal_address: 'principal address',
+  mailing_address: 'mailing address',
+  registered_agent_address: 'registered agent address',
+  officer_address: 'officer address',
+};
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  STREET: 'ST',
+  AVENUE: 'AVE',
+  BOULEVARD: 'BLVD',
+  ROAD: 'RD',
+  DRIVE: 'DR',
+  LANE: 'LN',
+  COURT: 'CT',
+  PLACE: 'PL',
+  PARKWAY: 'PKWY',
+  HIGHWAY: 'HWY',
+  SUITE: 'STE',
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+};
+
+// -------------------
+// Normalization
+// -------------------
+function clean(value: string): string[] {
+  return value
+    .toUpperCase()
+    .replace(/[^A-Z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/** Sunbiz lists people as "DOE, JANE"; sorting tokens also matches "JANE DOE". */
+export function personKey(name: string): string {
+  return clean(name).sort().join(' ');
+}
+
+export function addressKey(address: string): string {
+  return clean(address.replace(/\b(\d{5})-\d{4}\b/g, '$1'))
+    .map(token => ADDRESS_ABBREVIATIONS[token] || token)
+    .filter(token => token !== 'US' && token !== 'USA')
+    .join(' ');
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * The person and address links of a normalized Sunbiz detail record (the
+ * shape `normalizeParseForgeDetail` returns for every provider).
+ */
+export function extractEntityLinks(detail: Record<string, unknown>): { entity: GraphEntity; links: GraphLink[] } | null {
+  const documentNumber = asString(detail.document_number).toUpperCase();
+  if (!documentNumber) return null;
+
+  const links = new Map<string, GraphLink>();
+  const add = (nodeType: RelationshipNodeType, label: string, role: RelationshipRole, title?: string) => {
+    const nodeKey = nodeType === 'person' ? personKey(label) : addressKey(label);
+    // Too short to identify anyone or anywhere.
+    if (nodeKey.length < 4) return;
+    const id = `${nodeType}|${nodeKey}|${role}`;
+    if (!links.has(id)) {
+      links.set(id, { documentNumber, nodeType, nodeKey, label, role, ...(title ? { title } : {}) });
+    }
+  };
+
+  const officers = Array.isArray(detail.officers) ? detail.officers : [];
+  for (const officer of officers) {
+    const name = asString(officer?.Name);
+    if (name) add('person', name, 'officer', asString(officer?.Title) || undefined);
+    const address = asString(officer?.Address);
+    if (address) add('address', address, 'officer_address');
+  }
+
+  const agentName = asString(detail.registered_agent_name);
+  if (agentName) add('person', agentName, 'registered_agent');
+
+  const addresses: [unknown, RelationshipRole][] = [
+    [detail.principal_address, 'principal_address'],
+    [detail.mailing_address, 'mailing_address'],
+    [detail.registered_agent_address, 'registered_agent_address'],
+  ];
+  for (const [address, role] of addresses) {
+    if (asString(address)) add('address', asString(address), role);
+  }
+
+  return {
+    entity: {
+      documentNumber,
+      entityName: asString(detail.entity_name),
+      status: asString(detail.status),
+      indexedAt: new Date().toISOString(),
+    },
+    links: Array.from(links.values()),
+  };
+}
+
+// -------------------
+// Storage
+// -------------------
+function entityFilePath(documentNumber: string): string {
+  return `${ENTITY_DIR}/${encodeURIComponent(documentNumber)}.json`;
+}
+
+async function readEntityFiles(documentNumbers: string[]): Promise<EntityFile[]> {
+  const files = await Promise.all(documentNumbers.map(number => readJsonFile<EntityFile>(entityFilePath(number))));
+  return files.filter((file): file is EntityFile => Boolean(file));
+}
+
+async function readAllEntityFiles(): Promise<EntityFile[]> {
+  const names = await listJsonFiles(ENTITY_DIR);
+  return readEntityFiles(names.map(name => decodeURIComponent(name)));
+}
+
+/**
+ * Add or refresh an entity in the graph. Its previous links are replaced, so
+ * officers who left the company stop connecting it to their other companies.
+ */
+export async function indexSunbizEntity(detail: Record<string, unknown>): Promise<void> {
+  const extracted = extractEntityLinks(detail);
+  if (!extracted) return;
+  const { entity, links } = extracted;
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    // One transaction (see supabase/schema.sql), so a reader never sees the
+    // entity without its links and two indexings of it can't interleave.
+    const { error } = await supabase.rpc(INDEX_FUNCTION, {
+      p_entity: {
+        document_number: entity.documentNumber,
+        entity_name: entity.entityName,
+        status: entity.status,
+        indexed_at: entity.indexedAt,
+      },
+      p_links: links.map(link => ({
+        node_type: link.nodeType,
+        node_key: link.nodeKey,
+        label: link.label,
+        role: link.role,
+        title: link.title || null,
+      })),
+    });
+    if (error) throw new Error(`Relationship index failed: ${error.message}`);
+    return;
+  }
+
+  await writeJsonFile(entityFilePath(entity.documentNumber), { entity, links });
+}
+
+function rowToLink(row: any): GraphLink {
+  return {
+    documentNumber: row.document_number,
+    nodeType: row.node_type,
+    nodeKey: row.node_key,
+    label: row.label,
+    role: row.role,
+    ...(row.title ? { title: row.title } : {}),
+  };
+}
+
+async function getEntities(documentNumbers: string[]): Promise<GraphEntity[]> {
+  if (!documentNumbers.length) return [];
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(ENTITIES_TABLE)
+      .select('document_number, entity_name, status, indexed_at')
+      .in('document_number', documentNumbers);
+    if (error) throw new Error(`Relationship entity read failed: ${error.message}`);
+    return (data || []).map(row => ({
+      documentNumber: row.document_number,
+      entityName: row.entity_name,
+      status: row.status,
+      indexedAt: row.indexed_at,
+    }));
+  }
+
+  return (await readEntityFiles(documentNumbers)).map(file => file.entity);
+}
+
+export async function getGraphEntity(documentNumber: string): Promise<GraphEntity | null> {
+  const [entity] = await getEntities([documentNumber.toUpperCase()]);
+  return entity || null;
+}
+
+async function getLinksForEntities(documentNumbers: string[]): Promise<GraphLink[]> {
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase.from(LINKS_TABLE).select('*').in('document_number', documentNumbers);
+    if (error) throw new Error(`Relationship link read failed: ${error.message}`);
+    return (data || []).map(rowToLink);
+  }
+
+  return (await readEntityFiles(documentNumbers)).flatMap(file => file.links);
+}
+
+async function getLinksForNodes(nodeKeys: string[]): Promise<GraphLink[]> {
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase.from(LINKS_TABLE).select('*').in('node_key', nodeKeys);
+    if (error) throw new Error(`Relationship link read failed: ${error.message}`);
+    return (data || []).map(rowToLink);
+  }
+
+  const wanted = new Set(nodeKeys);
+  return (await readAllEntityFiles()).flatMap(file => file.links.filter(link => wanted.has(link.nodeKey)));
+}
+
+// -------------------
+// Traversal
+// -------------------
+function describeRole(link: GraphLink): string {
+  const role = ROLE_LABELS[link.role];
+  return link.title ? `${role} (${link.title})` : role;
+}
+
+/**
+ * Entities connected to `documentNumber` through shared people or addresses,
+ * breadth-first out to `depth` hops. Each entity is reported at the depth it
+ * was first reached, with every link that reached it at that depth.
+ */
+export async function findRelatedEntities(documentNumber: string, depth: number): Promise<RelationshipResult | null> {
+  const rootNumber = documentNumber.toUpperCase();
+  const root = await getGraphEntity(rootNumber);
+  if (!root) return null;
+
+  const maxDepth = Math.min(Math.max(depth, 1), MAX_RELATIONSHIP_DEPTH);
+  const visited = new Set([rootNumber]);
+  const connections = new Map<string, RelatedEntity>();
+  const hubs = new Map<string, RelationshipResult['skippedHubs'][number]>();
+  let frontier = [rootNumber];
+
+  for (let level = 1; level <= maxDepth && frontier.length; level++) {
+    const frontierLinks = await getLinksForEntities(frontier);
+    const nodeKeys = Array.from(new Set(frontierLinks.map(link => link.nodeKey)));
+    if (!nodeKeys.length) break;
+
+    const sharedLinks = await getLinksForNodes(nodeKeys);
+    const entitiesByNode = new Map<string, Set<string>>();
+    for (const link of sharedLinks) {
+      const key = `${link.nodeType}|${link.nodeKey}`;
+      entitiesByNode.set(key, (entitiesByNode.get(key) || new Set()).add(link.documentNumber));
+    }
+
+    const reached = new Map<string, RelationshipReason[]>();
+    for (const from of frontierLinks) {
+      const nodeId = `${from.nodeType}|${from.nodeKey}`;
+      const entityCount = entitiesByNode.get(nodeId)?.size || 0;
+      if (entityCount > HUB_LIMIT) {
+        hubs.set(nodeId, { type: from.nodeType, value: from.label, entityCount });
+        continue;
+      }
+
+      for (const to of sharedLinks) {
+        if (to.nodeType !== from.nodeType || to.nodeKey !== from.nodeKey || visited.has(to.documentNumber)) continue;
+
+        const reasons = reached.get(to.documentNumber) || [];
+        reasons.push({
+          type: from.nodeType,
+          value: to.label,
+          via: from.documentNumber,
+          viaRole: from.role,
+          role: to.role,
+          description: `${to.label} is the ${describeRole(to)} here and the ${describeRole(from)} of ${from.documentNumber}`,
+        });
+        reached.set(to.documentNumber, reasons);
+      }
+    }
+
+    const entities = await getEntities(Array.from(reached.keys()));
+    const byNumber = new Map(entities.map(entity => [entity.documentNumber, entity]));
+    for (const [reachedNumber, reasons] of Array.from(reached.entries())) {
+      const entity = byNumber.get(reachedNumber);
+      connections.set(reachedNumber, {
+        documentNumber: reachedNumber,
+        entityName: entity?.entityName || '',
+        status: entity?.status || '',
+        depth: level,
+        reasons,
+      });
+      visited.add(reachedNumber);
+    }
+
+    frontier = Array.from(reached.keys());
+  }
+
+  return {
+    entity: root,
+    depth: maxDepth,
+    connections: Array.from(connections.values()),
+    skippedHubs: Array.from(hubs.values()),
+  };
+}
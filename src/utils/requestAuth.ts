@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+import type { NextApiRequest } from 'next';
+
+// -------------------
+// Secrets
+// -------------------
+
+/** Constant-time comparison of a provided value against a configured secret. */
+export function secretMatches(provided: unknown, secret: string): boolean {
+  if (typeof provided !== 'string' || provided.length !== secret.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(secret));
+}
+
+/**
+ * Whether the request sends `Authorization: Bearer <secret>`. Closed when the
+ * secret isn't configured.
+ */
+export function bearerTokenMatches(req: NextApiRequest, secret: string | undefined): boolean {
+  if (!secret) return false;
+  return secretMatches(String(req.headers.authorization || '').replace(/^Bearer\s+/i, ''), secret);
+}
+
+/**
+ * The watchlist routes take `Authorization: Bearer $CRON_SECRET`, which is
+ * what Vercel Cron sends to /api/watchlist/run. Without CRON_SECRET they are
+ * only open outside production.
+ */
+export function cronSecretMatches(req: NextApiRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV !== 'production') return true;
+    console.error('[watchlist] CRON_SECRET is not set; rejecting request');
+    return false;
+  }
+  return bearerTokenMatches(req, secret);
+}
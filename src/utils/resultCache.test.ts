@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { buildCacheKey } from '@/utils/resultCache';
+
+describe('buildCacheKey', () => {
+  it('matches company names the way lookups do', () => {
+    expect(buildCacheKey('sunbiz', { companyName: 'Acme Roofing, LLC' })).toBe(
+      buildCacheKey('sunbiz', { companyName: '  acme roofing llc ' })
+    );
+  });
+
+  it('keeps other fields as given apart from whitespace', () => {
+    expect(buildCacheKey('dbpr', { licenseNumber: 'CCC1330000' })).not.toBe(
+      buildCacheKey('dbpr', { licenseNumber: 'CCC 1330000' })
+    );
+    expect(buildCacheKey('dbpr', { lastName: 'Inc' })).not.toBe(buildCacheKey('dbpr', { lastName: '' }));
+    expect(buildCacheKey('workersComp', { fein: ' 591234567 ' })).toBe(buildCacheKey('workersComp', { fein: '591234567' }));
+  });
+});
@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import type { NextApiHandler, NextApiRequest } from 'next';
+import { normalizeCompanyName } from '@/utils/normalizeCompanyName';
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { readJsonFile, writeJsonFile } from '@/utils/fileStore';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type CacheSource =
+  | 'sunbiz'
+  | 'sunbizSearch'
+  | 'sunbizFictitiousName'
+  | 'dbpr'
+  | 'bbb'
+  | 'reviews'
+  | 'workersComp';
+
+export type CacheMode = 'bypass' | 'prefer' | 'only';
+
+export type CacheStatus = 'hit' | 'miss' | 'stale';
+
+export interface CacheMeta {
+  status: CacheStatus;
+  ageMs: number | null;
+  cachedAt: string | null;
+  ttlMs: number;
+}
+
+interface CacheEntry {
+  payload: any;
+  cachedAt: string;
+}
+
+// -------------------
+// Configuration
+// -------------------
+const CACHE_TABLE = 'lookup_cache';
+const HOUR_MS = 60 * 60 * 1000;
+
+// Registries change slowly; reviews and coverage move faster than filings.
+const TTL_MS: Record<CacheSource, number> = {
+  sunbiz: 24 * HOUR_MS,
+  sunbizSearch: 12 * HOUR_MS,
+  sunbizFictitiousName: 24 * HOUR_MS,
+  dbpr: 24 * HOUR_MS,
+  bbb: 7 * 24 * HOUR_MS,
+  reviews: 24 * HOUR_MS,
+  workersComp: 24 * HOUR_MS,
+};
+
+const CACHE_MODES: CacheMode[] = ['bypass', 'prefer', 'only'];
+
+// -------------------
+// Helper Functions
+// -------------------
+export function parseCacheMode(value: unknown): CacheMode {
+  return CACHE_MODES.includes(value as CacheMode) ? (value as CacheMode) : 'prefer';
+}
+
+export function getCacheTtl(source: CacheSource): number {
+  return TTL_MS[source];
+}
+
+/**
+ * Stable key for a lookup: the source plus its query with empty fields dropped,
+ * keys sorted and strings trimmed. Only the company name is normalized the way
+ * names are matched; license numbers, FEINs and cursors are kept as given.
+ */
+export function buildCacheKey(source: CacheSource, query: Record<string, unknown>): string {
+  const normalized = Object.keys(query)
+    .sort()
+    .filter(key => query[key] !== undefined && query[key] !== null && query[key] !== '')
+    .map(key => {
+      const value = query[key];
+      if (typeof value !== 'string') return [key, value];
+      return [key, key === 'companyName' ? normalizeCompanyName(value) : value.trim()];
+    });
+
+  const hash = crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  return `${source}:${hash.slice(0, 40)}`;
+}
+
+function cacheFilePath(key: string): string {
+  const [source, hash] = key.split(':');
+  return `cache/${source}/${hash}.json`;
+}
+
+function buildMeta(status: CacheStatus, source: CacheSource, entry: CacheEntry | null): CacheMeta {
+  return {
+    status,
+    ageMs: entry ? Date.now() - new Date(entry.cachedAt).getTime() : null,
+    cachedAt: entry?.cachedAt || null,
+    ttlMs: TTL_MS[source],
+  };
+}
+
+function isFresh(source: CacheSource, entry: CacheEntry): boolean {
+  return Date.now() - new Date(entry.cachedAt).getTime() < TTL_MS[source];
+}
+
+function isCacheable(statusCode: number, body: any): boolean {
+  return (
+    statusCode === 200 &&
+    Boolean(body) &&
+    typeof body === 'object' &&
+    !body.error &&
+    body.success !== false &&
+    !body.partialSuccess &&
+    !body.meta?.blocked
+  );
+}
+
+function withCacheMeta(body: any, meta: CacheMeta) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return body;
+  return { ...body, meta: { ...(body.meta || {}), cache: meta } };
+}
+
+// -------------------
+// Storage
+// -------------------
+export async function readCache(key: string): Promise<CacheEntry | null> {
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(CACHE_TABLE)
+      .select('payload, cached_at')
+      .eq('cache_key', key)
+      .maybeSingle();
+
+    if (error) throw new Error(`Cache read failed: ${error.message}`);
+    return data ? { payload: data.payload, cachedAt: data.cached_at } : null;
+  }
+
+  return readJsonFile<CacheEntry>(cacheFilePath(key));
+}
+
+export async function writeCache(key: string, source: CacheSource, payload: unknown): Promise<void> {
+  const entry: CacheEntry = { payload, cachedAt: new Date().toISOString() };
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { error } = await supabase.from(CACHE_TABLE).upsert(
+      { cache_key: key, source, payload, cached_at: entry.cachedAt },
+      { onConflict: 'cache_key' }
+    );
+    if (error) throw new Error(`Cache write failed: ${error.message}`);
+    return;
+  }
+
+  await writeJsonFile(cacheFilePath(key), entry);
+}
+
+// -------------------
+// Handler Wrapper
+// -------------------
+
+/**
+ * Serve POST lookups from the result cache according to `req.body.cache`:
+ * - `prefer` (default): fresh entries are returned as hits; otherwise the handler
+ *   runs, and if it fails a stale entry is returned instead of the error.
+ * - `only`: never scrapes; returns whatever is cached, fresh or stale, or 404.
+ * - `bypass`: always scrapes; the fresh result still refreshes the cache.
+ * Successful handler responses are written back before they are sent, and every
+ * response carries `meta.cache`.
+ */
+export function withResultCache(
+  config: {
+    source: CacheSource;
+    query: (req: NextApiRequest) => Record<string, unknown> | null;
+  },
+  handler: NextApiHandler
+): NextApiHandler {
+  return async (req, res) => {
+    const query = req.method === 'POST' ? config.query(req) : null;
+    if (!query) {
+      return handler(req, res);
+    }
+
+    const { source } = config;
+    const mode = parseCacheMode(req.body?.cache);
+    const key = buildCacheKey(source, query);
+
+    let cached: CacheEntry | null = null;
+    if (mode !== 'bypass') {
+      try {
+        cached = await readCache(key);
+      } catch (error) {
+        console.warn(`[resultCache] ${source} read failed:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (cached && (mode === 'only' || isFresh(source, cached))) {
+      const status = isFresh(source, cached) ? 'hit' : 'stale';
+      return res.status(200).json(withCacheMeta(cached.payload, buildMeta(status, source, cached)));
+    }
+
+    if (mode === 'only') {
+      return res.status(404).json({
+        error: 'No cached result for this lookup.',
+        meta: { cache: buildMeta('miss', source, null) },
+      });
+    }
+
+    // Hold the handler's JSON response until the cache has been updated, so the
+    // write finishes before the platform can freeze the function.
+    const sendJson = res.json.bind(res);
+    const captured: { sent: boolean; body?: any } = { sent: false };
+    res.json = (body: any) => {
+      captured.sent = true;
+      captured.body = body;
+      return res;
+    };
+
+    try {
+      await handler(req, res);
+    } finally {
+      res.json = sendJson;
+    }
+
+    if (!captured.sent) return;
+    const { body } = captured;
+
+    if (isCacheable(res.statusCode, body)) {
+      try {
+        await writeCache(key, source, body);
+      } catch (error) {
+        console.warn(`[resultCache] ${source} write failed:`, error instanceof Error ? error.message : String(error));
+      }
+      return sendJson(withCacheMeta(body, buildMeta('miss', source, null)));
+    }
+
+    if (cached && res.statusCode >= 500) {
+      console.warn(`[resultCache] ${source} lookup failed, serving stale cache entry`);
+      res.status(200);
+      return sendJson(withCacheMeta(cached.payload, buildMeta('stale', source, cached)));
+    }
+
+    return sendJson(withCacheMeta(body, buildMeta('miss', source, null)));
+  };
+}
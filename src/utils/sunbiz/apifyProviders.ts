@@ -0,0 +1,57 @@
+import {
+  fetchSunbizDetailWithApify,
+  fetchSunbizDetailWithAuthorizedPersonActor,
+  searchSunbizWithApify,
+} from '@/utils/sunbizApify';
+import { SunbizDetailOutcome, SunbizDetailRequest, SunbizProvider, SunbizSearchOutcome, SunbizSearchRequest } from './types';
+
+// -------------------
+// ParseForge Actor
+// -------------------
+export const parseForgeProvider: SunbizProvider = {
+  name: 'apify_parseforge',
+  priority: 10,
+
+  supportsDetail: (request: SunbizDetailRequest) => Boolean(request.companyName || request.documentNumber),
+
+  fetchDetail(request: SunbizDetailRequest): Promise<SunbizDetailOutcome> {
+    return fetchSunbizDetailWithApify(request);
+  },
+
+  // The actor pages by offset, so it can't resume from a browser results page.
+  supportsSearch: (request: SunbizSearchRequest) => !request.start.url,
+
+  async search(request: SunbizSearchRequest): Promise<SunbizSearchOutcome> {
+    const { offset } = request.start;
+    const page = await searchSunbizWithApify(request.searchTerm, {
+      searchType: request.searchType,
+      offset,
+      limit: request.limit,
+    });
+
+    return {
+      results: page.results,
+      next: page.hasMore ? { offset: offset + request.limit } : null,
+      meta: { attempts: 1 },
+    };
+  },
+};
+
+// -------------------
+// Authorized-Person Actor
+// -------------------
+export const authorizedPersonProvider: SunbizProvider = {
+  name: 'apify_authorized_person',
+  priority: 30,
+
+  supportsDetail: (request: SunbizDetailRequest) =>
+    process.env.SUNBIZ_ENABLE_AUTH_PERSON_FALLBACK !== 'false' && Boolean(request.documentNumber),
+
+  async fetchDetail(request: SunbizDetailRequest): Promise<SunbizDetailOutcome> {
+    const data = await fetchSunbizDetailWithAuthorizedPersonActor({
+      documentNumber: request.documentNumber as string,
+      companyName: request.companyName,
+    });
+    return data ? { kind: 'found', data } : { kind: 'not_found' };
+  },
+};
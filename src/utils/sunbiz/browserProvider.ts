@@ -0,0 +1,438 @@
+import { Page } from 'puppeteer-core';
+import { BrowserSession, SUNBIZ_PROFILE, getBrowserPoolStats, withBrowser } from '@/utils/browser';
+import { getAndAmpersandVariant, normalizeCompanyName } from '@/utils/normalizeCompanyName';
+import { SunbizSearchResult, SunbizSearchType } from '@/utils/sunbizApify';
+import { parseSunbizDetailHtml } from '@/utils/sunbizDetailParser';
+import {
+  SunbizBlockedError,
+  SunbizDetailOutcome,
+  SunbizDetailRequest,
+  SunbizProvider,
+  SunbizSearchOutcome,
+  SunbizSearchRequest,
+} from './types';
+
+// -------------------
+// Configuration
+// -------------------
+const DETAIL_MAX_ATTEMPTS = 4; // Total attempts within the 5-minute window
+const SEARCH_MAX_ATTEMPTS = 2;
+const ATTEMPT_TIMEOUT = 90000; // Give Cloudflare's browser challenge time to clear.
+const PAGE_TIMEOUT = 20000; // Extra time allowed for every additional results page.
+const SUNBIZ_PAGE_SIZE = 20;
+
+export const SUNBIZ_SEARCH_BASE_URL = 'https://search.sunbiz.org/Inquiry/CorporationSearch';
+const SEARCH_RESULTS_SELECTOR = '#search-results tbody tr';
+const SEARCH_INPUT_SELECTOR = '#SearchTerm, input[name="SearchTerm"]';
+const DETAIL_PAGE_SELECTOR = '.searchResultDetail';
+
+// Form pages used when the direct results URL comes back empty.
+const SEARCH_FORM_PATHS: Record<SunbizSearchType, string> = {
+  EntityName: 'ByName',
+  DocumentNumber: 'ByDocumentNumber',
+  FeiNumber: 'ByFeiNumber',
+  OfficerRegisteredAgentName: 'ByOfficerOrRegisteredAgent',
+  ZipCode: 'ByZipCode',
+};
+
+type ResultTable = {
+  headers: string[];
+  rows: { cells: string[]; links: (string | null)[] }[];
+};
+
+type BrowserSearchPage = {
+  results: SunbizSearchResult[];
+  next: { url: string; offset: number } | null;
+  pagesVisited: number;
+};
+
+type DetailMatch = { url: string } | { reviewNeeded: string[] } | null;
+
+// -------------------
+// Helper Functions
+// -------------------
+export function normalizeSearchTerm(searchType: SunbizSearchType, term: string): string {
+  const value = term.trim();
+  if (searchType === 'DocumentNumber') return value.replace(/\s+/g, '').toUpperCase();
+  if (searchType === 'ZipCode') return value.replace(/[^\d-]/g, '');
+  return value.replace(/\//g, '');
+}
+
+function isSunbizSecurityBlock(errorMessage: string): boolean {
+  return /just a moment|performing security verification|protect against malicious bots|did not expose search results or form|did not clear browser challenge/i.test(
+    errorMessage
+  );
+}
+
+function wait(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** Reject after `timeoutMs`, calling `onTimeout` first so the caller can stop the abandoned work. */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, onTimeout?: () => void): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => {
+          onTimeout?.();
+          reject(new Error('Attempt timeout'));
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function findColumn(headers: string[], pattern: RegExp): number {
+  return headers.findIndex(header => pattern.test(header));
+}
+
+/**
+ * Map result rows by their header text, since officer/agent searches add a
+ * leading name column and shift the entity columns to the right.
+ */
+function mapResultTable(table: ResultTable, baseUrl: string): SunbizSearchResult[] {
+  const headers = table.headers.map(header => header.toLowerCase());
+  const nameColumn = findColumn(headers, /corporate name|entity name/);
+  const documentColumn = findColumn(headers, /document number/);
+  const statusColumn = findColumn(headers, /status/);
+  const matchedColumn = findColumn(headers, /officer|registered agent|\bra\b/);
+
+  const results: SunbizSearchResult[] = [];
+  for (const row of table.rows) {
+    const nameIndex = nameColumn >= 0 ? nameColumn : 0;
+    const name = row.cells[nameIndex] || '';
+    const documentNumber = row.cells[documentColumn >= 0 ? documentColumn : nameIndex + 1] || '';
+    if (!name || !documentNumber) continue;
+
+    const href = row.links[nameIndex] || row.links.find(Boolean) || null;
+    results.push({
+      name,
+      corporationName: name,
+      entityName: name,
+      documentNumber,
+      status: row.cells[statusColumn >= 0 ? statusColumn : nameIndex + 2] || '',
+      detailUrl: href ? new URL(href, baseUrl).toString() : null,
+      ...(matchedColumn >= 0 && matchedColumn !== nameColumn ? { matchedName: row.cells[matchedColumn] || '' } : {}),
+    });
+  }
+
+  return results;
+}
+
+function detailToSearchResult(detail: Record<string, unknown>): SunbizSearchResult {
+  const name = String(detail.entity_name || '');
+  return {
+    name,
+    corporationName: name,
+    entityName: name,
+    documentNumber: String(detail.document_number || ''),
+    status: String(detail.status || ''),
+    detailUrl: (detail.detail_url as string) || null,
+    entityType: (detail.entity_type as string) || undefined,
+    dateFiled: (detail.date_filed as string) || undefined,
+  };
+}
+
+// -------------------
+// Page Logic
+// -------------------
+async function getPageDiagnostics(page: Page): Promise<string> {
+  return page.evaluate(() => {
+    const bodyText = document.body?.innerText?.replace(/\s+/g, ' ').trim().slice(0, 220) || '';
+    return `url=${location.href}; title=${document.title}; body=${bodyText}`;
+  }).catch(error => `diagnostics unavailable: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+/** Wait until the page shows search results, a search form or an entity detail page. */
+export async function waitForSunbizContent(page: Page): Promise<void> {
+  try {
+    await page.waitForSelector(`${SEARCH_RESULTS_SELECTOR}, ${SEARCH_INPUT_SELECTOR}, ${DETAIL_PAGE_SELECTOR}`, {
+      timeout: 45000,
+    });
+  } catch {
+    const diagnostics = await getPageDiagnostics(page);
+    throw new Error(`Sunbiz did not expose search results or form after browser load. ${diagnostics}`);
+  }
+}
+
+/**
+ * Read whatever the page landed on. A document-number search redirects
+ * straight to the entity detail page, which is parsed into a single result.
+ */
+async function readResults(page: Page): Promise<{ results: SunbizSearchResult[]; nextUrl: string | null }> {
+  if (await page.$(DETAIL_PAGE_SELECTOR)) {
+    const detail = parseSunbizDetailHtml(await page.content(), page.url());
+    return { results: [detailToSearchResult(detail)], nextUrl: null };
+  }
+
+  const table = await page.evaluate((rowSelector: string) => {
+    const headers = Array.from(document.querySelectorAll('#search-results thead th, #search-results thead td')).map(
+      cell => cell.textContent?.replace(/\s+/g, ' ').trim() || ''
+    );
+    const rows = Array.from(document.querySelectorAll(rowSelector)).map(row => {
+      const cells = Array.from(row.querySelectorAll('td'));
+      return {
+        cells: cells.map(cell => cell.textContent?.replace(/\s+/g, ' ').trim() || ''),
+        links: cells.map(cell => cell.querySelector('a')?.getAttribute('href') || null),
+      };
+    });
+    const nextLink = Array.from(document.querySelectorAll('a')).find(
+      link => link.getAttribute('title') === 'Next List' || link.textContent?.trim() === 'Next List'
+    );
+    return { headers, rows, nextHref: nextLink?.getAttribute('href') || null };
+  }, SEARCH_RESULTS_SELECTOR);
+
+  return {
+    results: mapResultTable(table, page.url()),
+    nextUrl: table.nextHref ? new URL(table.nextHref, page.url()).toString() : null,
+  };
+}
+
+async function openResultsPage(page: Page, url: string) {
+  await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+  await waitForSunbizContent(page);
+  return readResults(page);
+}
+
+async function openFirstPage(page: Page, searchTerm: string, searchType: SunbizSearchType) {
+  const term = normalizeSearchTerm(searchType, searchTerm);
+  const resultsUrl = `${SUNBIZ_SEARCH_BASE_URL}/SearchResults/${searchType}/${encodeURIComponent(term)}/Page1`;
+
+  const direct = await openResultsPage(page, resultsUrl);
+  if (direct.results.length > 0) return direct;
+
+  await page.goto(`${SUNBIZ_SEARCH_BASE_URL}/${SEARCH_FORM_PATHS[searchType]}`, {
+    waitUntil: 'domcontentloaded',
+    timeout: 60000,
+  });
+  await waitForSunbizContent(page);
+
+  await page.type(SEARCH_INPUT_SELECTOR, term);
+  await page.click('input[type="submit"][value="Search Now"]');
+  await page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: 60000 });
+  await waitForSunbizContent(page);
+
+  return readResults(page);
+}
+
+/**
+ * Collect up to `limit` results starting `skip` rows into the search,
+ * following Sunbiz's "Next List" links across as many pages as needed.
+ */
+async function collectSearchResults(page: Page, request: SunbizSearchRequest): Promise<BrowserSearchPage> {
+  let current = request.start.url
+    ? await openResultsPage(page, request.start.url)
+    : await openFirstPage(page, request.searchTerm, request.searchType);
+  let currentUrl = page.url();
+  let skip = request.start.offset;
+  let pagesVisited = 1;
+  const results: SunbizSearchResult[] = [];
+
+  for (;;) {
+    const available = current.results.slice(skip);
+    const remaining = request.limit - results.length;
+    results.push(...available.slice(0, remaining));
+
+    if (available.length > remaining) {
+      // Stopped part-way through this page; resume on it next time.
+      return { results, next: { url: currentUrl, offset: skip + remaining }, pagesVisited };
+    }
+
+    if (!current.nextUrl) {
+      return { results, next: null, pagesVisited };
+    }
+
+    if (results.length >= request.limit) {
+      return { results, next: { url: current.nextUrl, offset: 0 }, pagesVisited };
+    }
+
+    skip = Math.max(skip - current.results.length, 0);
+    currentUrl = current.nextUrl;
+    current = await openResultsPage(page, current.nextUrl);
+    pagesVisited++;
+  }
+}
+
+/**
+ * Pick the entity to open from the name search: a single exact match, the
+ * active one among several, or a list of close matches for manual review.
+ */
+async function findCompanyDetailUrl(page: Page, companyName: string): Promise<DetailMatch> {
+  const { results } = await openFirstPage(page, companyName, 'EntityName');
+  const resultsFromPage = results.slice(0, 5);
+
+  // Filter to *include* only doc numbers starting with the specified letters
+  // AND document number length must be MORE than 6 characters
+  const allowedStarters = 'BDLMNTRP';
+  const filteredResults = resultsFromPage.filter(result => {
+    const docNum = result.documentNumber.toUpperCase();
+    return docNum.length > 6 && allowedStarters.includes(docNum[0]) && Boolean(result.detailUrl);
+  });
+
+  const normalizedSearchName = normalizeCompanyName(companyName);
+
+  // Collect all exact name matches
+  const exactMatches = filteredResults.filter(result => {
+    const normalizedResultText = normalizeCompanyName(result.name);
+    return normalizedResultText === normalizedSearchName ||
+           normalizedResultText === normalizedSearchName.replace(',', '') ||
+           normalizedResultText.replace(',', '') === normalizedSearchName;
+  });
+
+  if (exactMatches.length === 1) {
+    return { url: exactMatches[0].detailUrl as string };
+  }
+
+  // Multiple exact matches — prefer the Active one
+  if (exactMatches.length > 1) {
+    const activeMatch = exactMatches.find(r => r.status.toLowerCase() === 'active');
+    return { url: (activeMatch || exactMatches[0]).detailUrl as string };
+  }
+
+  // If no exact match is found, look for close matches within the filtered list
+  const closeMatches = filteredResults.filter(result => {
+    const normalizedResultText = normalizeCompanyName(result.name);
+    return normalizedResultText.includes(normalizedSearchName) ||
+           normalizedSearchName.includes(normalizedResultText);
+  });
+
+  if (closeMatches.length > 0) {
+    return { reviewNeeded: closeMatches.map(result => result.name) };
+  }
+
+  return null; // No suitable match found
+}
+
+async function fetchCompanyPageHTML(page: Page, url: string): Promise<string> {
+  await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+  await page.waitForFunction(() => {
+    const bodyText = document.body?.innerText || '';
+    return document.body && !bodyText.includes('Enable JavaScript and cookies to continue');
+  }, { timeout: 45000 }).catch(async () => {
+    const diagnostics = await getPageDiagnostics(page);
+    throw new Error(`Sunbiz detail page did not clear browser challenge. ${diagnostics}`);
+  });
+
+  return page.content();
+}
+
+// -------------------
+// Retry Logic
+// -------------------
+
+/**
+ * Run `attempt` in a fresh browser session until it succeeds, with
+ * exponential backoff between attempts. Throws `SunbizBlockedError` when any
+ * attempt ran into Sunbiz's security verification.
+ */
+export async function withRetry<T>(
+  label: string,
+  maxAttempts: number,
+  attemptTimeout: number,
+  attempt: (page: Page) => Promise<T>
+): Promise<{ value: T; attempts: number }> {
+  const errors: string[] = [];
+
+  for (let attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
+    console.log(`[sunbizBrowser] Attempt ${attemptNumber}/${maxAttempts} for ${label}`);
+
+    let session: BrowserSession | null = null;
+    try {
+      const value = await withTimeout(
+        withBrowser(SUNBIZ_PROFILE, async current => {
+          session = current;
+          return attempt(await current.newPage());
+        }),
+        attemptTimeout,
+        // Closing the context ends the timed-out attempt's page loads and hands the browser back to the pool.
+        () => void session?.close()
+      );
+      console.log(`[sunbizBrowser] Success on attempt ${attemptNumber}`);
+      return { value, attempts: attemptNumber };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      errors.push(`Attempt ${attemptNumber}: ${errorMessage}`);
+      console.error(`[sunbizBrowser] Attempt ${attemptNumber} failed:`, errorMessage);
+    }
+
+    if (attemptNumber < maxAttempts) {
+      await wait(Math.min(1000 * Math.pow(2, attemptNumber - 1), 5000));
+    }
+  }
+
+  const message = `All ${maxAttempts} attempts failed. Errors: ${errors.join(' | ')}`;
+  if (errors.some(isSunbizSecurityBlock)) {
+    throw new SunbizBlockedError(message);
+  }
+  throw new Error(message);
+}
+
+async function fetchDetailByName(companyName: string): Promise<{ outcome: SunbizDetailOutcome; attempts: number }> {
+  const { value, attempts } = await withRetry(
+    `company: ${companyName}`,
+    DETAIL_MAX_ATTEMPTS,
+    ATTEMPT_TIMEOUT,
+    async (page): Promise<SunbizDetailOutcome> => {
+      const match = await findCompanyDetailUrl(page, companyName);
+      if (!match) return { kind: 'not_found' };
+      if ('reviewNeeded' in match) return { kind: 'review', review: match.reviewNeeded };
+
+      // Parse into the same shape the Apify providers return
+      const htmlContent = await fetchCompanyPageHTML(page, match.url);
+      return { kind: 'found', data: parseSunbizDetailHtml(htmlContent, match.url) };
+    }
+  );
+
+  return { outcome: value, attempts };
+}
+
+// -------------------
+// Provider
+// -------------------
+export const browserProvider: SunbizProvider = {
+  name: 'browser',
+  priority: 20,
+
+  // The browser path searches by name only.
+  supportsDetail: (request: SunbizDetailRequest) => Boolean(request.companyName),
+
+  async fetchDetail(request: SunbizDetailRequest): Promise<SunbizDetailOutcome> {
+    const companyName = request.companyName as string;
+    let { outcome, attempts } = await fetchDetailByName(companyName);
+
+    // If the original name found nothing, try the and/& variant
+    const variant = outcome.kind === 'not_found' ? getAndAmpersandVariant(companyName) : null;
+    if (variant) {
+      console.log(`[sunbizBrowser] Retrying with and/& variant: "${variant}"`);
+      const variantResult = await fetchDetailByName(variant);
+      outcome = variantResult.outcome;
+      attempts += variantResult.attempts;
+    }
+
+    return { ...outcome, meta: { attempts, pool: getBrowserPoolStats() } };
+  },
+
+  supportsSearch: () => true,
+
+  async search(request: SunbizSearchRequest): Promise<SunbizSearchOutcome> {
+    const pages = Math.ceil((request.start.offset + request.limit) / SUNBIZ_PAGE_SIZE);
+    const attemptTimeout = ATTEMPT_TIMEOUT + Math.max(pages - 1, 0) * PAGE_TIMEOUT;
+
+    const { value, attempts } = await withRetry(
+      `${request.searchType}: ${request.searchTerm}`,
+      SEARCH_MAX_ATTEMPTS,
+      attemptTimeout,
+      page => collectSearchResults(page, request)
+    );
+
+    return {
+      results: value.results,
+      next: value.next,
+      meta: { pagesVisited: value.pagesVisited, attempts, pool: getBrowserPoolStats() },
+    };
+  },
+};
@@ -0,0 +1,58 @@
+import { isApifyBudgetExceeded } from '@/utils/apifyUsage';
+import { authorizedPersonProvider, parseForgeProvider } from './apifyProviders';
+import { browserProvider } from './browserProvider';
+import { registerSunbizProvider, routeSunbizRequest, RoutedResult } from './router';
+import { SunbizDetailOutcome, SunbizDetailRequest, SunbizSearchOutcome, SunbizSearchRequest } from './types';
+
+export * from './types';
+export { getSunbizProviderHealth, getSunbizProviders, registerSunbizProvider } from './router';
+export type { ProviderAttempt, ProviderHealth, RoutedResult } from './router';
+export { normalizeSearchTerm, SUNBIZ_SEARCH_BASE_URL, waitForSunbizContent, withRetry } from './browserProvider';
+
+// -------------------
+// Default Providers
+// -------------------
+// A new source only needs a SunbizProvider and a line here; the routes go through the router.
+registerSunbizProvider(parseForgeProvider);
+registerSunbizProvider(browserProvider);
+registerSunbizProvider(authorizedPersonProvider);
+
+// -------------------
+// Lookups
+// -------------------
+
+/** Once this month's Apify budget is spent, the browser goes first and Apify becomes the fallback. */
+async function preferredProviders(): Promise<string[] | undefined> {
+  return (await isApifyBudgetExceeded()) ? ['browser'] : undefined;
+}
+
+/**
+ * Look up one entity. A provider that finds nothing hands over to the next;
+ * a `review` list of close matches is returned as-is.
+ */
+export async function fetchSunbizDetail(request: SunbizDetailRequest): Promise<RoutedResult<SunbizDetailOutcome>> {
+  return routeSunbizRequest('detail', {
+    prefer: await preferredProviders(),
+    eligible: provider => Boolean(provider.fetchDetail && provider.supportsDetail?.(request)),
+    call: async provider => {
+      const outcome = await provider.fetchDetail!(request);
+      return outcome.kind === 'not_found' ? null : outcome;
+    },
+  });
+}
+
+/**
+ * Read one page of search results. `provider` restricts the search to that
+ * provider, for cursors that only it can resume.
+ */
+export async function searchSunbiz(
+  request: SunbizSearchRequest,
+  options: { provider?: string } = {}
+): Promise<RoutedResult<SunbizSearchOutcome>> {
+  return routeSunbizRequest('search', {
+    prefer: await preferredProviders(),
+    only: options.provider,
+    eligible: provider => Boolean(provider.search && provider.supportsSearch?.(request)),
+    call: provider => provider.search!(request),
+  });
+}
@@ -0,0 +1,204 @@
+import { SunbizBlockedError, SunbizOperation, SunbizProvider } from './types';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type ProviderAttemptOutcome = 'found' | 'not_found' | 'blocked' | 'error' | 'skipped';
+
+export interface ProviderAttempt {
+  provider: string;
+  outcome: ProviderAttemptOutcome;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  samples: number;
+  successRate: number | null;
+  averageLatencyMs: number | null;
+  lastBlockedAt: string | null;
+  healthy: boolean;
+}
+
+export interface RoutedResult<T> {
+  provider: string | null;
+  value: T | null;
+  attempts: ProviderAttempt[];
+  blocked: boolean;
+  error: string | null;
+}
+
+type Sample = { ok: boolean; latencyMs: number; at: number };
+
+type ProviderState = {
+  samples: Sample[];
+  lastBlockedAt: number | null;
+};
+
+// -------------------
+// Configuration
+// -------------------
+const WINDOW_SIZE = Number(process.env.SUNBIZ_PROVIDER_WINDOW) || 20;
+const MIN_SAMPLES = 5;
+const MIN_SUCCESS_RATE = Number(process.env.SUNBIZ_PROVIDER_MIN_SUCCESS_RATE) || 0.3;
+const BLOCK_COOLDOWN_MS = Number(process.env.SUNBIZ_PROVIDER_BLOCK_COOLDOWN_MS) || 5 * 60 * 1000;
+
+// -------------------
+// Registry and Health State
+// -------------------
+// Per warm instance, like the browser pool: a cold start begins with a clean slate.
+const providers = new Map<string, SunbizProvider>();
+const health = new Map<string, ProviderState>();
+// SUNBIZ_PROVIDER names already warned about, so a typo logs once per instance.
+const warnedProviderNames = new Set<string>();
+
+export function registerSunbizProvider(provider: SunbizProvider): void {
+  providers.set(provider.name, provider);
+  if (!health.has(provider.name)) {
+    health.set(provider.name, { samples: [], lastBlockedAt: null });
+  }
+}
+
+export function getSunbizProviders(): SunbizProvider[] {
+  return Array.from(providers.values()).sort((a, b) => a.priority - b.priority);
+}
+
+function stateFor(name: string): ProviderState {
+  let state = health.get(name);
+  if (!state) {
+    state = { samples: [], lastBlockedAt: null };
+    health.set(name, state);
+  }
+  return state;
+}
+
+function recordSample(name: string, ok: boolean, latencyMs: number, blocked = false): void {
+  const state = stateFor(name);
+  state.samples.push({ ok, latencyMs, at: Date.now() });
+  if (state.samples.length > WINDOW_SIZE) state.samples.shift();
+  if (blocked) state.lastBlockedAt = Date.now();
+}
+
+function describeHealth(name: string): ProviderHealth {
+  const state = stateFor(name);
+  const samples = state.samples.length;
+  const successes = state.samples.filter(sample => sample.ok).length;
+  const successRate = samples ? successes / samples : null;
+  const recentlyBlocked = state.lastBlockedAt !== null && Date.now() - state.lastBlockedAt < BLOCK_COOLDOWN_MS;
+  const failing = samples >= MIN_SAMPLES && (successRate ?? 1) < MIN_SUCCESS_RATE;
+
+  return {
+    provider: name,
+    samples,
+    successRate,
+    averageLatencyMs: samples
+      ? Math.round(state.samples.reduce((total, sample) => total + sample.latencyMs, 0) / samples)
+      : null,
+    lastBlockedAt: state.lastBlockedAt ? new Date(state.lastBlockedAt).toISOString() : null,
+    healthy: !recentlyBlocked && !failing,
+  };
+}
+
+export function getSunbizProviderHealth(): ProviderHealth[] {
+  return getSunbizProviders().map(provider => describeHealth(provider.name));
+}
+
+/**
+ * Providers configured by SUNBIZ_PROVIDER (a comma-separated list of names)
+ * or every registered provider, in priority order. Unknown names are ignored
+ * with a warning; if none of the names match, every provider is used.
+ */
+function configuredProviders(): SunbizProvider[] {
+  const pinned = (process.env.SUNBIZ_PROVIDER || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  const all = getSunbizProviders();
+  if (!pinned.length) return all;
+
+  const unknown = pinned.filter(name => !providers.has(name) && !warnedProviderNames.has(name));
+  if (unknown.length) {
+    unknown.forEach(name => warnedProviderNames.add(name));
+    console.warn(
+      `[sunbizRouter] Ignoring unknown SUNBIZ_PROVIDER name(s): ${unknown.join(', ')}. ` +
+        `Registered: ${all.map(provider => provider.name).join(', ')}`
+    );
+  }
+
+  const selected = pinned
+    .map(name => providers.get(name))
+    .filter((provider): provider is SunbizProvider => Boolean(provider));
+  return selected.length ? selected : all;
+}
+
+// -------------------
+// Routing
+// -------------------
+
+/**
+ * Try eligible providers in order until one returns something. Providers that
+ * are failing or were recently blocked are skipped. A `null` result (nothing
+ * found) moves on to the next provider without counting against its health.
+ */
+export async function routeSunbizRequest<T>(
+  operation: SunbizOperation,
+  options: {
+    eligible: (provider: SunbizProvider) => boolean;
+    call: (provider: SunbizProvider) => Promise<T | null>;
+    // Restrict routing to one provider, e.g. to resume a provider-specific cursor.
+    only?: string;
+    // Move these providers to the front of the order, e.g. when over an API budget.
+    prefer?: string[];
+  }
+): Promise<RoutedResult<T>> {
+  const candidates = configuredProviders().filter(
+    provider => (!options.only || provider.name === options.only) && options.eligible(provider)
+  );
+
+  const preferred = options.prefer || [];
+  const ordered = candidates.sort((a, b) => {
+    const aPreferred = preferred.includes(a.name) ? 0 : 1;
+    const bPreferred = preferred.includes(b.name) ? 0 : 1;
+    return aPreferred - bPreferred;
+  });
+  const healthy = ordered.filter(provider => describeHealth(provider.name).healthy);
+  const unhealthy = ordered.filter(provider => !describeHealth(provider.name).healthy);
+
+  // When every provider looks unhealthy, try them all rather than fail outright.
+  const queue = healthy.length ? healthy : unhealthy;
+  const attempts: ProviderAttempt[] = healthy.length
+    ? unhealthy.map(provider => ({ provider: provider.name, outcome: 'skipped', durationMs: 0 }))
+    : [];
+  let blocked = false;
+  let lastError: string | null = null;
+
+  for (const provider of queue) {
+    const startTime = Date.now();
+    try {
+      const value = await options.call(provider);
+      const durationMs = Date.now() - startTime;
+      recordSample(provider.name, true, durationMs);
+
+      if (value === null) {
+        attempts.push({ provider: provider.name, outcome: 'not_found', durationMs });
+        continue;
+      }
+
+      attempts.push({ provider: provider.name, outcome: 'found', durationMs });
+      return { provider: provider.name, value, attempts, blocked: false, error: null };
+    } catch (error) {
+      const durationMs = Date.now() - startTime;
+      const message = error instanceof Error ? error.message : String(error);
+      const wasBlocked = error instanceof SunbizBlockedError;
+      recordSample(provider.name, false, durationMs, wasBlocked);
+
+      blocked = blocked || wasBlocked;
+      lastError = `${provider.name}: ${message}`;
+      attempts.push({ provider: provider.name, outcome: wasBlocked ? 'blocked' : 'error', durationMs, error: message });
+      console.warn(`[sunbizRouter] ${operation} via ${provider.name} failed:`, message);
+    }
+  }
+
+  return { provider: null, value: null, attempts, blocked, error: lastError };
+}
@@ -0,0 +1,67 @@
+import type { SunbizSearchResult, SunbizSearchType } from '@/utils/sunbizApify';
+
+// -------------------
+// Requests
+// -------------------
+export interface SunbizDetailRequest {
+  companyName?: string;
+  documentNumber?: string;
+}
+
+/**
+ * Where a search page starts. `offset` counts results from the start of the
+ * search unless `url` is set, in which case it counts rows on that results page.
+ */
+export interface SunbizSearchPosition {
+  offset: number;
+  url?: string;
+}
+
+export interface SunbizSearchRequest {
+  searchTerm: string;
+  searchType: SunbizSearchType;
+  start: SunbizSearchPosition;
+  limit: number;
+}
+
+// -------------------
+// Outcomes
+// -------------------
+export type SunbizDetailOutcome =
+  | { kind: 'found'; data: Record<string, unknown>; meta?: Record<string, unknown> }
+  | { kind: 'review'; review: string[]; meta?: Record<string, unknown> }
+  | { kind: 'not_found'; meta?: Record<string, unknown> };
+
+export interface SunbizSearchOutcome {
+  results: SunbizSearchResult[];
+  next: SunbizSearchPosition | null;
+  meta?: Record<string, unknown>;
+}
+
+// -------------------
+// Provider
+// -------------------
+
+/**
+ * A source of Sunbiz data. Providers throw on failure, and throw
+ * `SunbizBlockedError` when Sunbiz's security verification stops them, so the
+ * router can tell a block from an ordinary error.
+ */
+export interface SunbizProvider {
+  name: string;
+  // Lower runs first when every provider is healthy.
+  priority: number;
+  supportsDetail?(request: SunbizDetailRequest): boolean;
+  fetchDetail?(request: SunbizDetailRequest): Promise<SunbizDetailOutcome>;
+  supportsSearch?(request: SunbizSearchRequest): boolean;
+  search?(request: SunbizSearchRequest): Promise<SunbizSearchOutcome>;
+}
+
+export type SunbizOperation = 'detail' | 'search';
+
+export class SunbizBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SunbizBlockedError';
+  }
+}
@@ -1,12 +1,31 @@
+import { recordApifyRun } from '@/utils/apifyUsage';
+import { normalizeCompanyName } from '@/utils/normalizeCompanyName';
+import type { SunbizDetailOutcome } from '@/utils/sunbiz/types';
+import { buildFilingTimeline, normalizeDocumentImages } from '@/utils/sunbizTimeline';
+
 type ApifyRunStatus = 'READY' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'ABORTED' | 'TIMED-OUT';
 
-type ApifyRun = {
+export type ApifyRun = {
   id: string;
+  actId?: string;
   status: ApifyRunStatus;
   defaultDatasetId: string;
   statusMessage?: string | null;
+  startedAt?: string;
+  finishedAt?: string | null;
+  stats?: { computeUnits?: number; runTimeSecs?: number };
+  usage?: Record<string, unknown>;
+  usageUsd?: Record<string, unknown>;
+  usageTotalUsd?: number;
+};
+
+export type ApifyWebhookTarget = {
+  requestUrl: string;
+  secret: string;
 };
 
+export type SunbizSearchType = 'EntityName' | 'DocumentNumber' | 'FeiNumber' | 'OfficerRegisteredAgentName' | 'ZipCode';
+
 export type SunbizSearchResult = {
   name: string;
   corporationName: string;
@@ -16,6 +35,8 @@ export type SunbizSearchResult = {
   detailUrl: string | null;
   entityType?: string;
   dateFiled?: string;
+  // Officer or registered agent that matched an OfficerRegisteredAgentName search.
+  matchedName?: string;
 };
 
 type NormalizedOfficer = {
@@ -24,7 +45,18 @@ type NormalizedOfficer = {
   Address: string;
 };
 
-const APIFY_BASE_URL = 'https://api.apify.com/v2';
+export const SUNBIZ_SEARCH_TYPES: SunbizSearchType[] = [
+  'EntityName',
+  'DocumentNumber',
+  'FeiNumber',
+  'OfficerRegisteredAgentName',
+  'ZipCode',
+];
+
+// Overridable so the local stub server (scripts/apify-stub-server.mjs) can stand in for Apify.
+const APIFY_BASE_URL = (process.env.APIFY_BASE_URL || 'https://api.apify.com/v2').replace(/\/$/, '');
+const WEBHOOK_EVENT_TYPES = ['ACTOR.RUN.SUCCEEDED', 'ACTOR.RUN.FAILED', 'ACTOR.RUN.ABORTED', 'ACTOR.RUN.TIMED_OUT'];
+export const APIFY_WEBHOOK_SECRET_HEADER = 'X-Apify-Webhook-Secret';
 const PARSEFORGE_ACTOR_ID = process.env.APIFY_SUNBIZ_ACTOR_ID || 'parseforge~sunbiz-florida-business-scraper';
 const AUTH_PERSON_FALLBACK_ACTOR_ID =
   process.env.APIFY_SUNBIZ_AUTH_PERSON_ACTOR_ID || 'rKHKYWNfCUkdkzUs6';
@@ -96,9 +128,29 @@ async function getDatasetItems(datasetId: string, token: string): Promise<any[]>
   return Array.isArray(json) ? json : [];
 }
 
-export async function runApifyActor(actorId: string, input: Record<string, unknown>, timeoutMs?: number): Promise<any[]> {
+/**
+ * Ad-hoc webhooks are passed to the run as base64 JSON in the `webhooks`
+ * query parameter; the secret travels as a header Apify sends back to us.
+ */
+function encodeWebhooks(webhook: ApifyWebhookTarget): string {
+  const webhooks = [
+    {
+      eventTypes: WEBHOOK_EVENT_TYPES,
+      requestUrl: webhook.requestUrl,
+      headersTemplate: JSON.stringify({ [APIFY_WEBHOOK_SECRET_HEADER]: webhook.secret }),
+    },
+  ];
+  return Buffer.from(JSON.stringify(webhooks)).toString('base64');
+}
+
+export async function startApifyActorRun(
+  actorId: string,
+  input: Record<string, unknown>,
+  webhook?: ApifyWebhookTarget
+): Promise<ApifyRun> {
   const token = getApifyToken();
-  const startResponse = await fetch(`${APIFY_BASE_URL}/actors/${actorId}/runs`, {
+  const query = webhook ? `?webhooks=${encodeURIComponent(encodeWebhooks(webhook))}` : '';
+  const startResponse = await fetch(`${APIFY_BASE_URL}/actors/${actorId}/runs${query}`, {
     method: 'POST',
     headers: apifyHeaders(token),
     body: JSON.stringify(input),
@@ -111,15 +163,48 @@ export async function runApifyActor(actorId: string, input: Record<string, unkno
 
   const started = await startResponse.json();
   const run: ApifyRun = started.data;
-  const completed = await waitForRun(run.id, token, timeoutMs);
+  // Counted from the start, so a run we stop waiting for still shows up in usage;
+  // the record is updated when the run finishes.
+  await recordApifyRun(run, 0);
+  return run;
+}
+
+export async function getApifyRun(runId: string): Promise<ApifyRun> {
+  return getRun(runId, getApifyToken());
+}
 
-  if (completed.status !== 'SUCCEEDED') {
-    throw new Error(
-      `Apify run ${completed.status}${completed.statusMessage ? `: ${completed.statusMessage}` : ''}`
-    );
+/**
+ * Dataset items of a finished run; throws when the run did not succeed.
+ * Updates the run's usage record with its final status and cost either way.
+ */
+export async function getApifyRunItems(run: ApifyRun): Promise<any[]> {
+  let items: any[] = [];
+  try {
+    if (run.status !== 'SUCCEEDED') {
+      throw new Error(`Apify run ${run.status}${run.statusMessage ? `: ${run.statusMessage}` : ''}`);
+    }
+    items = await getDatasetItems(run.defaultDatasetId, getApifyToken());
+    return items;
+  } finally {
+    await recordApifyRun(run, items.length);
   }
+}
 
-  return getDatasetItems(completed.defaultDatasetId || run.defaultDatasetId, token);
+export async function runApifyActor(actorId: string, input: Record<string, unknown>, timeoutMs?: number): Promise<any[]> {
+  const token = getApifyToken();
+  const run = await startApifyActorRun(actorId, input);
+
+  let completed: ApifyRun;
+  try {
+    completed = await waitForRun(run.id, token, timeoutMs);
+  } catch (error) {
+    // Keep the usage record as current as we can before giving up on the run.
+    const latest = await getRun(run.id, token).catch(() => null);
+    if (latest) await recordApifyRun(latest, 0);
+    throw error;
+  }
+
+  return getApifyRunItems({ ...completed, defaultDatasetId: completed.defaultDatasetId || run.defaultDatasetId });
 }
 
 function normalizeStatus(status: unknown): string {
@@ -196,10 +281,15 @@ export function normalizeParseForgeSearchItem(item: any): SunbizSearchResult | n
     detailUrl: pickString(item?.detailUrl, item?.url) || null,
     entityType: pickString(item?.corporationType, item?.entityType),
     dateFiled: pickString(item?.dateFiled, item?.filingDate),
+    matchedName: pickString(item?.officerName, item?.registeredAgentName, item?.matchedName) || undefined,
   };
 }
 
-export function normalizeParseForgeDetail(item: any, extraOfficers: NormalizedOfficer[] = []) {
+export function normalizeParseForgeDetail(
+  item: any,
+  extraOfficers: NormalizedOfficer[] = [],
+  provider = 'apify_parseforge'
+) {
   const entityName = pickString(item?.corporateName, item?.entityName, item?.name, item?.corporationName);
   const entityType = pickString(item?.corporationType, item?.entityType, item?.filingType);
   const documentNumber = pickString(item?.documentNumber, item?.filingNumber, item?.doc);
@@ -219,10 +309,18 @@ export function normalizeParseForgeDetail(item: any, extraOfficers: NormalizedOf
     ...normalizeOfficers(item?.officers, item?.authorizedPersons, item?.authorized_persons),
     ...extraOfficers,
   ];
+  const timeline = buildFilingTimeline({
+    status,
+    dateFiled,
+    lastEvent,
+    eventDateFiled,
+    annualReports: item?.annualReports || item?.annual_reports,
+    documentImages: item?.documentImages || item?.document_images,
+  });
 
   const normalized: Record<string, unknown> = {
-    provider: 'apify_parseforge',
-    source: 'apify_parseforge',
+    provider,
+    source: provider,
     entity_name: entityName,
     entity_type: entityType,
     document_number: documentNumber,
@@ -248,8 +346,10 @@ export function normalizeParseForgeDetail(item: any, extraOfficers: NormalizedOf
     officers,
     authorized_persons: officers,
     'Officers/Directors': officers,
-    annual_reports: item?.annualReports || [],
-    document_images: item?.documentImages || [],
+    annual_reports: timeline.annualReports,
+    document_images: normalizeDocumentImages(item?.documentImages || item?.document_images),
+    filing_timeline: timeline.events,
+    filing_flags: timeline.flags,
     detail_url: pickString(item?.detailUrl),
     url: pickString(item?.detailUrl),
     scraped_at: pickString(item?.scrapedAt) || new Date().toISOString(),
@@ -292,8 +392,8 @@ function shouldFetchAuthorizedPersonFallback(normalized: Record<string, unknown>
   );
 }
 
-async function fetchAuthorizedPersons(documentNumber: string, companyName?: string): Promise<NormalizedOfficer[]> {
-  const items = await runApifyActor(
+async function runAuthorizedPersonActor(documentNumber: string, companyName?: string): Promise<any[]> {
+  return runApifyActor(
     AUTH_PERSON_FALLBACK_ACTOR_ID,
     {
       searchMode: 'documentNumber',
@@ -303,31 +403,61 @@ async function fetchAuthorizedPersons(documentNumber: string, companyName?: stri
     },
     120000
   );
+}
 
+async function fetchAuthorizedPersons(documentNumber: string, companyName?: string): Promise<NormalizedOfficer[]> {
+  const items = await runAuthorizedPersonActor(documentNumber, companyName);
   return normalizeOfficers(items[0]?.authorizedPersons, items[0]?.authorized_persons, items[0]?.officers);
 }
 
-export async function searchSunbizWithApify(companyName: string, maxItems = 5): Promise<SunbizSearchResult[]> {
+/**
+ * Look an entity up with the authorized-person actor alone. It only searches
+ * by document number, and its records carry fewer filing details than ParseForge's.
+ */
+export async function fetchSunbizDetailWithAuthorizedPersonActor(input: {
+  documentNumber: string;
+  companyName?: string;
+}) {
+  const items = await runAuthorizedPersonActor(input.documentNumber.trim(), input.companyName?.trim());
+  if (!items.length) {
+    return null;
+  }
+
+  return normalizeParseForgeDetail(items[0], [], 'apify_authorized_person');
+}
+
+/**
+ * The actor has no paging of its own, so a page at `offset` is read by asking
+ * for everything up to it plus one extra item to tell whether more exist.
+ */
+export async function searchSunbizWithApify(
+  searchTerm: string,
+  options: { searchType?: SunbizSearchType; offset?: number; limit?: number } = {}
+): Promise<{ results: SunbizSearchResult[]; hasMore: boolean }> {
+  const offset = options.offset || 0;
+  const limit = options.limit || 5;
   const items = await runApifyActor(
     PARSEFORGE_ACTOR_ID,
     {
-      searchType: 'EntityName',
-      searchTerm: companyName,
-      maxItems,
+      searchType: options.searchType || 'EntityName',
+      searchTerm,
+      maxItems: offset + limit + 1,
       includeDetails: false,
     },
     120000
   );
 
-  return items
+  const results = items
     .map(normalizeParseForgeSearchItem)
     .filter((item): item is SunbizSearchResult => Boolean(item));
+
+  return {
+    results: results.slice(offset, offset + limit),
+    hasMore: results.length > offset + limit,
+  };
 }
 
-export async function fetchSunbizDetailWithApify(input: {
-  companyName?: string;
-  documentNumber?: string;
-}) {
+function buildDetailActorInput(input: { companyName?: string; documentNumber?: string }) {
   const documentNumber = input.documentNumber?.trim();
   const companyName = input.companyName?.trim();
 
@@ -335,28 +465,48 @@ export async function fetchSunbizDetailWithApify(input: {
     throw new Error('Company name or document number is required');
   }
 
-  const items = await runApifyActor(
-    PARSEFORGE_ACTOR_ID,
-    {
-      searchType: documentNumber ? 'DocumentNumber' : 'EntityName',
-      searchTerm: documentNumber || companyName,
-      maxItems: 1,
-      includeDetails: true,
-    },
-    170000
-  );
+  return {
+    searchType: documentNumber ? 'DocumentNumber' : 'EntityName',
+    searchTerm: documentNumber || companyName,
+    maxItems: 1,
+    includeDetails: true,
+  };
+}
 
-  if (!items.length) {
-    return null;
+/**
+ * Turn the detail actor's items into an outcome. A name search only takes an
+ * exact name match and lists a close one for review, as the browser lookup
+ * does, and an LLC without officers gets the authorized-person fallback.
+ * Webhook runs finish through here as well, so both paths cache the same shape.
+ */
+export async function resolveParseForgeDetail(
+  items: any[],
+  input: { companyName?: string; documentNumber?: string }
+): Promise<SunbizDetailOutcome> {
+  const item = items[0];
+  if (!item) {
+    return { kind: 'not_found' };
+  }
+
+  const companyName = input.companyName?.trim();
+  if (companyName && !input.documentNumber?.trim()) {
+    const entityName = pickString(item?.corporateName, item?.entityName, item?.name, item?.corporationName);
+    const found = normalizeCompanyName(entityName).replace(',', '');
+    const wanted = normalizeCompanyName(companyName).replace(',', '');
+    if (found !== wanted) {
+      return found && (found.includes(wanted) || wanted.includes(found))
+        ? { kind: 'review', review: [entityName] }
+        : { kind: 'not_found' };
+    }
   }
 
-  let normalized = normalizeParseForgeDetail(items[0]);
+  let normalized = normalizeParseForgeDetail(item);
 
   if (shouldFetchAuthorizedPersonFallback(normalized)) {
     try {
       const extraOfficers = await fetchAuthorizedPersons(String(normalized.document_number), companyName);
       if (extraOfficers.length > 0) {
-        normalized = normalizeParseForgeDetail(items[0], extraOfficers);
+        normalized = normalizeParseForgeDetail(item, extraOfficers);
         normalized.provider_fallback = 'apify_agenscrape_authorized_persons';
       }
     } catch (error) {
@@ -367,5 +517,25 @@ export async function fetchSunbizDetailWithApify(input: {
     }
   }
 
-  return normalized;
+  return { kind: 'found', data: normalized };
+}
+
+export async function fetchSunbizDetailWithApify(input: {
+  companyName?: string;
+  documentNumber?: string;
+}): Promise<SunbizDetailOutcome> {
+  const items = await runApifyActor(PARSEFORGE_ACTOR_ID, buildDetailActorInput(input), 170000);
+  return resolveParseForgeDetail(items, input);
+}
+
+/**
+ * Start the detail run without waiting for it; Apify calls `webhook` when the
+ * run finishes and `/api/webhooks/apify` picks it up from there.
+ */
+export async function startSunbizDetailRunWithWebhook(
+  input: { companyName?: string; documentNumber?: string },
+  webhook: ApifyWebhookTarget
+): Promise<ApifyRun & { actorId: string }> {
+  const run = await startApifyActorRun(PARSEFORGE_ACTOR_ID, buildDetailActorInput(input), webhook);
+  return { ...run, actorId: PARSEFORGE_ACTOR_ID };
 }
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseFictitiousNameDetailHtml, parseSunbizDetailHtml, parseSunbizDetailItem } from '@/utils/sunbizDetailParser';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__/sunbiz', name), 'utf8');
+
+const DETAIL_URL = 'https://search.sunbiz.org/Inquiry/CorporationSearch/SearchResultDetail?inquirytype=EntityName';
+const FICTITIOUS_URL = 'https://search.sunbiz.org/Inquiry/FictitiousName/SearchResultDetail?inquirytype=FictitiousName';
+
+describe('parseSunbizDetailItem', () => {
+  it('reads the filing information and sections into the actor item shape', () => {
+    const item = parseSunbizDetailItem(fixture('entity-detail.html'), DETAIL_URL);
+
+    expect(item).toMatchObject({
+      corporationType: 'Florida Limited Liability Company',
+      corporateName: 'ACME ROOFING LLC',
+      documentNumber: 'L19000012345',
+      feiEinNumber: '59-1234567',
+      dateFiled: '03/15/2019',
+      status: 'ACTIVE',
+      lastEvent: 'LC AMENDMENT',
+      eventDateFiled: '08/14/2023',
+      principalAddress: '123 MAIN ST, SUITE 200, TAMPA, FL 33602',
+      principalAddressChanged: '08/14/2023',
+      mailingAddress: 'PO BOX 1000, TAMPA, FL 33601',
+      registeredAgent: {
+        name: 'DOE, JANE',
+        address: '123 MAIN ST, TAMPA, FL 33602',
+        nameChanged: '08/14/2023',
+        addressChanged: '',
+      },
+    });
+    expect(item.officers).toEqual([
+      { title: 'MGR', name: 'DOE, JANE', address: '123 MAIN ST, TAMPA, FL 33602' },
+      { title: 'AMBR', name: 'SMITH, ROBERT', address: '456 OAK AVE, TAMPA, FL 33603' },
+    ]);
+    expect(item.annualReports).toEqual([
+      { reportYear: '2022', filedDate: '04/01/2022' },
+      { reportYear: '2023', filedDate: '03/02/2023' },
+      { reportYear: '2024', filedDate: '02/10/2024' },
+    ]);
+    expect(item.documentImages).toHaveLength(3);
+    expect((item.documentImages as { url: string }[])[0].url).toBe(
+      'https://search.sunbiz.org/DocumentImage/GetImage?documentNumber=L19000012345&id=4'
+    );
+  });
+});
+
+describe('parseSunbizDetailHtml', () => {
+  it('normalizes the page like an Apify detail record', () => {
+    const detail = parseSunbizDetailHtml(fixture('entity-detail.html'), DETAIL_URL);
+
+    expect(detail).toMatchObject({
+      provider: 'browser',
+      entity_name: 'ACME ROOFING LLC',
+      document_number: 'L19000012345',
+      status: 'ACTIVE',
+      registered_agent_name: 'DOE, JANE',
+    });
+    expect(detail.officers).toEqual([
+      { Name: 'DOE, JANE', Title: 'MGR', Address: '123 MAIN ST, TAMPA, FL 33602' },
+      { Name: 'SMITH, ROBERT', Title: 'AMBR', Address: '456 OAK AVE, TAMPA, FL 33603' },
+    ]);
+    expect((detail.filing_timeline as { type: string }[]).map(event => event.type)).toEqual([
+      'filed',
+      'annual_report',
+      'annual_report',
+      'amendment',
+      'annual_report',
+    ]);
+  });
+
+  it('rejects a page without filing information', () => {
+    expect(() => parseSunbizDetailHtml('<html><body><p>No results</p></body></html>', DETAIL_URL)).toThrow(
+      'Sunbiz detail page did not contain entity filing information'
+    );
+  });
+});
+
+describe('parseFictitiousNameDetailHtml', () => {
+  it('reads the registration and each owner with its document number', () => {
+    const record = parseFictitiousNameDetailHtml(fixture('fictitious-name-detail.html'), FICTITIOUS_URL);
+
+    expect(record).toMatchObject({
+      fictitious_name: 'ACME ROOFING',
+      registration_number: 'G19000034567',
+      status: 'ACTIVE',
+      filed_date: '03/20/2019',
+      expiration_date: '12/31/2024',
+      county: 'HILLSBOROUGH',
+      fei_ein: '',
+      mailing_address: '123 MAIN ST, TAMPA, FL 33602',
+    });
+    expect(record.owners).toEqual([
+      {
+        name: 'ACME ROOFING LLC',
+        address: '123 MAIN ST, TAMPA, FL 33602',
+        fei_ein: '59-1234567',
+        document_number: 'L19000012345',
+      },
+      { name: 'DOE, JANE', address: '456 OAK AVE, TAMPA, FL 33603', fei_ein: '', document_number: '' },
+    ]);
+    expect(record.document_images).toHaveLength(1);
+  });
+});
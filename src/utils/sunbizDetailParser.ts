@@ -0,0 +1,343 @@
+import { JSDOM } from 'jsdom';
+import { normalizeParseForgeDetail } from '@/utils/sunbizApify';
+
+// -------------------
+// Type Definitions
+// -------------------
+type ParsedAddress = {
+  text: string;
+  changed: string;
+};
+
+type ParsedPerson = {
+  title: string;
+  name: string;
+  address: string;
+};
+
+export type FictitiousNameOwner = {
+  name: string;
+  address: string;
+  fei_ein: string;
+  // Sunbiz document number of the owning entity; empty for individual owners.
+  document_number: string;
+};
+
+// -------------------
+// Helper Functions
+// -------------------
+const cleanText = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Sunbiz renders addresses as <br>-separated lines inside a div.
+ */
+function readLines(element: Element | null): string[] {
+  if (!element) return [];
+  const container = element.ownerDocument.createElement('div');
+  container.innerHTML = element.innerHTML.replace(/<br\s*\/?>/gi, '\n');
+  return (container.textContent || '')
+    .split('\n')
+    .map(line => cleanText(line))
+    .filter(Boolean);
+}
+
+function readAddressLines(element: Element | null): string {
+  return readLines(element).join(', ');
+}
+
+function readChangedDate(section: Element, label: string): string {
+  const spans = Array.from(section.querySelectorAll('span'));
+  const match = spans
+    .map(span => cleanText(span.textContent))
+    .find(text => text.toLowerCase().startsWith(`${label.toLowerCase()}:`));
+  return match ? cleanText(match.slice(label.length + 1)) : '';
+}
+
+function childSpans(section: Element): Element[] {
+  return Array.from(section.children).filter(child => child.tagName === 'SPAN');
+}
+
+function sectionHeading(section: Element): string {
+  return cleanText(childSpans(section)[0]?.textContent).toLowerCase();
+}
+
+function readAddressSection(section: Element): ParsedAddress {
+  return {
+    text: readAddressLines(section.querySelector('div')),
+    changed: readChangedDate(section, 'Changed'),
+  };
+}
+
+function readFilingInformation(section: Element | null): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (!section) return values;
+
+  for (const label of Array.from(section.querySelectorAll('label'))) {
+    const key = cleanText(label.textContent);
+    const value = cleanText(label.nextElementSibling?.textContent);
+    if (key && value && !values[key]) {
+      values[key] = value;
+    }
+  }
+
+  return values;
+}
+
+function readRegisteredAgent(section: Element) {
+  const nameSpan = childSpans(section)[1];
+  return {
+    name: nameSpan && !nameSpan.querySelector('div') ? cleanText(nameSpan.textContent) : '',
+    address: readAddressLines(section.querySelector('div')),
+    nameChanged: readChangedDate(section, 'Name Changed'),
+    addressChanged: readChangedDate(section, 'Address Changed'),
+  };
+}
+
+/**
+ * Officer and authorized-person sections are flat sibling runs of
+ * `<span>Title X</span>`, a bare name text node and an address span.
+ */
+function readPeople(section: Element): ParsedPerson[] {
+  const people: ParsedPerson[] = [];
+  let current: ParsedPerson | null = null;
+
+  for (const node of Array.from(section.childNodes)) {
+    if (node.nodeType === 3) {
+      const text = cleanText(node.textContent);
+      if (text && current && !current.name) {
+        current.name = text;
+      }
+      continue;
+    }
+
+    if (node.nodeType !== 1) continue;
+    const element = node as Element;
+    const text = cleanText(element.textContent);
+
+    if (/^Title\b/i.test(text) && !element.querySelector('div')) {
+      current = { title: cleanText(text.replace(/^Title/i, '')), name: '', address: '' };
+      people.push(current);
+    } else if (current && element.querySelector('div')) {
+      current.address = readAddressLines(element.querySelector('div'));
+    }
+  }
+
+  return people.filter(person => person.name);
+}
+
+function readTableRows(section: Element): string[][] {
+  return Array.from(section.querySelectorAll('tr'))
+    .map(row => Array.from(row.querySelectorAll('td')).map(cell => cleanText(cell.textContent)))
+    .filter(cells => cells.length > 0);
+}
+
+function readAnnualReports(section: Element) {
+  return readTableRows(section)
+    .filter(cells => /^\d{4}$/.test(cells[0]))
+    .map(cells => ({ reportYear: cells[0], filedDate: cells[1] || '' }));
+}
+
+function readDocumentImages(section: Element, baseUrl: string) {
+  const images: { date: string; description: string; url: string }[] = [];
+
+  for (const anchor of Array.from(section.querySelectorAll('a'))) {
+    const label = cleanText(anchor.textContent);
+    const match = label.match(/^(\d{2}\/\d{2}\/\d{4})\s*--\s*(.+)$/);
+    const href = anchor.getAttribute('href');
+    if (!match || !href) continue;
+
+    images.push({
+      date: match[1],
+      description: cleanText(match[2]),
+      url: new URL(href, baseUrl).toString(),
+    });
+  }
+
+  return images;
+}
+
+/**
+ * Owner sections list each owner as a name, an address block and optional
+ * "FEI/EIN Number" / "Document Number" values, either as `Label: value` text
+ * or as label elements. A new name or a second address block starts the next owner.
+ */
+function readFictitiousNameOwners(section: Element): FictitiousNameOwner[] {
+  const owners: FictitiousNameOwner[] = [];
+  let current: FictitiousNameOwner | null = null;
+
+  const startOwner = (name: string) => {
+    current = { name, address: '', fei_ein: '', document_number: '' };
+    owners.push(current);
+    return current;
+  };
+
+  const assignLabel = (label: string, value: string) => {
+    const owner = current || startOwner('');
+    if (/fei|ein/i.test(label)) owner.fei_ein = /^none$/i.test(value) ? '' : value;
+    else if (/document/i.test(label)) owner.document_number = value.toUpperCase();
+  };
+
+  // Skip the heading span itself; the section may open with whitespace before it.
+  const heading = childSpans(section)[0];
+  const nodes = Array.from(section.childNodes).filter(node => node !== heading);
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.nodeType !== 1 && node.nodeType !== 3) continue;
+
+    const element = node.nodeType === 1 ? (node as Element) : null;
+    if (element?.tagName === 'BR') continue;
+
+    if (element?.tagName === 'LABEL') {
+      const valueNode = element.nextElementSibling;
+      assignLabel(cleanText(element.textContent), cleanText(valueNode?.textContent));
+      if (valueNode) index = nodes.indexOf(valueNode);
+      continue;
+    }
+
+    const block = element?.tagName === 'DIV' ? element : element?.querySelector('div');
+    if (block) {
+      const lines = readLines(block);
+      let owner: FictitiousNameOwner = current || startOwner('');
+      if (owner.address) owner = startOwner('');
+      // Some filings put the owner name on the first line of the block.
+      if (!owner.name) owner.name = lines.shift() || '';
+      owner.address = lines.join(', ');
+      continue;
+    }
+
+    const text = cleanText(node.textContent);
+    if (!text) continue;
+
+    const labelled = text.match(/^([^:]+):\s*(.*)$/);
+    if (labelled) {
+      assignLabel(labelled[1], cleanText(labelled[2]));
+    } else {
+      startOwner(text);
+    }
+  }
+
+  return owners.filter(owner => owner.name);
+}
+
+// -------------------
+// Parser
+// -------------------
+
+/**
+ * Parse a Sunbiz entity detail page into the raw item shape the ParseForge
+ * actor produces, so the browser path can share `normalizeParseForgeDetail`.
+ */
+export function parseSunbizDetailItem(html: string, url: string): Record<string, unknown> {
+  const doc = new JSDOM(html).window.document;
+  const root = doc.querySelector('.searchResultDetail') || doc.body;
+
+  const nameParagraphs = Array.from(root.querySelectorAll('.corporationName p')).map(p => cleanText(p.textContent));
+  const filing = readFilingInformation(root.querySelector('.filingInformation'));
+
+  const item: Record<string, unknown> = {
+    corporationType: nameParagraphs.length > 1 ? nameParagraphs[0] : '',
+    corporateName: nameParagraphs[nameParagraphs.length - 1] || '',
+    documentNumber: filing['Document Number'],
+    feiEinNumber: filing['FEI/EIN Number'],
+    dateFiled: filing['Date Filed'],
+    effectiveDate: filing['Effective Date'],
+    state: filing['State'],
+    status: filing['Status'],
+    lastEvent: filing['Last Event'],
+    eventDateFiled: filing['Event Date Filed'],
+    eventEffectiveDate: filing['Event Effective Date'],
+    detailUrl: url,
+  };
+
+  for (const section of Array.from(root.querySelectorAll('.detailSection'))) {
+    const heading = sectionHeading(section);
+
+    if (heading.startsWith('principal address')) {
+      const address = readAddressSection(section);
+      item.principalAddress = address.text;
+      item.principalAddressChanged = address.changed;
+    } else if (heading.startsWith('mailing address')) {
+      const address = readAddressSection(section);
+      item.mailingAddress = address.text;
+      item.mailingAddressChanged = address.changed;
+    } else if (heading.startsWith('registered agent')) {
+      item.registeredAgent = readRegisteredAgent(section);
+    } else if (heading.startsWith('officer/director') || heading.startsWith('authorized person')) {
+      item.officers = readPeople(section);
+    } else if (heading.startsWith('annual reports')) {
+      item.annualReports = readAnnualReports(section);
+    } else if (heading.startsWith('document images')) {
+      item.documentImages = readDocumentImages(section, url);
+    }
+  }
+
+  return item;
+}
+
+/**
+ * Parse a Sunbiz detail page straight into the normalized detail object the
+ * Apify provider returns, tagged with the `browser` provider.
+ */
+export function parseSunbizDetailHtml(html: string, url: string) {
+  const item = parseSunbizDetailItem(html, url);
+
+  if (!item.documentNumber || !item.corporateName) {
+    throw new Error('Sunbiz detail page did not contain entity filing information');
+  }
+
+  return normalizeParseForgeDetail(item, [], 'browser');
+}
+
+/**
+ * Parse a Sunbiz fictitious name (DBA) detail page. Each owner carries the
+ * document number of its Sunbiz entity when the owner is a registered business.
+ */
+export function parseFictitiousNameDetailHtml(html: string, url: string) {
+  const doc = new JSDOM(html).window.document;
+  const root = doc.querySelector('.searchResultDetail') || doc.body;
+
+  const nameParagraphs = Array.from(root.querySelectorAll('.corporationName p')).map(p => cleanText(p.textContent));
+  const filing = readFilingInformation(root.querySelector('.filingInformation'));
+  const fictitiousName = nameParagraphs[nameParagraphs.length - 1] || '';
+  const registrationNumber = filing['Registration Number'] || filing['Document Number'] || '';
+
+  if (!fictitiousName || !registrationNumber) {
+    throw new Error('Sunbiz fictitious name page did not contain registration information');
+  }
+
+  let mailingAddress = '';
+  let owners: FictitiousNameOwner[] = [];
+  let documentImages: { date: string; description: string; url: string }[] = [];
+
+  for (const section of Array.from(root.querySelectorAll('.detailSection'))) {
+    const heading = sectionHeading(section);
+
+    if (heading.startsWith('mailing address')) {
+      mailingAddress = readAddressSection(section).text;
+    } else if (heading.startsWith('owner')) {
+      owners = owners.concat(readFictitiousNameOwners(section));
+    } else if (heading.startsWith('document images')) {
+      documentImages = readDocumentImages(section, url);
+    }
+  }
+
+  const feiEin = filing['FEI/EIN Number'] || '';
+
+  return {
+    provider: 'browser',
+    source: 'browser',
+    fictitious_name: fictitiousName,
+    registration_number: registrationNumber.toUpperCase(),
+    status: (filing['Status'] || '').toUpperCase(),
+    filed_date: filing['Filed Date'] || filing['Date Filed'] || '',
+    expiration_date: filing['Expiration Date'] || '',
+    cancellation_date: filing['Cancellation Date'] || '',
+    county: filing['County'] || '',
+    fei_ein: /^none$/i.test(feiEin) ? '' : feiEin,
+    mailing_address: mailingAddress,
+    owners,
+    document_images: documentImages,
+    detail_url: url,
+    scraped_at: new Date().toISOString(),
+  };
+}
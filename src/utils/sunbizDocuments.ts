@@ -0,0 +1,255 @@
+import crypto from 'crypto';
+import { Page } from 'puppeteer-core';
+import { SUNBIZ_PROFILE, withBrowser } from '@/utils/browser';
+import { toIsoDate } from '@/utils/dates';
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { classifyFilingEvent, FilingEventType, normalizeDocumentImages } from '@/utils/sunbizTimeline';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type DocumentFilingType = FilingEventType | 'articles';
+
+export interface SunbizDocumentImage {
+  date: string;
+  description: string;
+  url: string;
+}
+
+export interface ArchivedDocument {
+  date: string;
+  description: string;
+  filingType: DocumentFilingType;
+  year: number | null;
+  pageCount: number | null;
+  sizeBytes: number;
+  sourceUrl: string;
+  storagePath: string;
+  url: string;
+  archivedAt: string;
+}
+
+export interface DocumentSelection {
+  filingTypes?: string[];
+  years?: number[];
+}
+
+type DocumentManifest = {
+  documentNumber: string;
+  documents: ArchivedDocument[];
+};
+
+// -------------------
+// Configuration
+// -------------------
+const DOCUMENTS_BUCKET = process.env.SUNBIZ_DOCUMENTS_BUCKET || 'sunbiz-documents';
+const MANIFEST_FILE = 'manifest.json';
+const SUNBIZ_SEARCH_URL = 'https://search.sunbiz.org/Inquiry/CorporationSearch/ByName';
+const DOWNLOAD_TIMEOUT = 45000;
+export const MAX_DOCUMENTS_PER_REQUEST = 10;
+
+// -------------------
+// Helper Functions
+// -------------------
+
+/**
+ * Filing type for a document image. The original filing's image is named
+ * after the entity type ("Florida Limited Liability"), so an unclassified
+ * image dated on the filing date is the articles.
+ */
+export function documentFilingType(image: SunbizDocumentImage, dateFiled: string): DocumentFilingType {
+  const type = classifyFilingEvent(image.description);
+  if (type === 'other' && toIsoDate(image.date) === toIsoDate(dateFiled)) return 'articles';
+  return type;
+}
+
+export function selectDocumentImages(
+  images: unknown,
+  dateFiled: string,
+  selection: DocumentSelection
+): SunbizDocumentImage[] {
+  const filingTypes = selection.filingTypes?.map(type => type.toLowerCase());
+
+  return normalizeDocumentImages(images).filter(image => {
+    if (!image.url) return false;
+    if (filingTypes?.length && !filingTypes.includes(documentFilingType(image, dateFiled))) return false;
+    const year = Number(toIsoDate(image.date).slice(0, 4));
+    return !selection.years?.length || selection.years.includes(year);
+  });
+}
+
+/**
+ * Count page objects in a PDF. Falls back to the largest page tree `/Count`
+ * when the page objects live in compressed object streams.
+ */
+export function countPdfPages(pdf: Buffer): number | null {
+  const text = pdf.toString('latin1');
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length || 0;
+  if (pages > 0) return pages;
+
+  const counts = Array.from(text.matchAll(/\/Count\s+(\d+)/g)).map(match => Number(match[1]));
+  return counts.length ? Math.max(...counts) : null;
+}
+
+function storageFolder(documentNumber: string): string {
+  return documentNumber.replace(/[^A-Z0-9]/gi, '').toUpperCase();
+}
+
+function storageFileName(image: SunbizDocumentImage, filingType: DocumentFilingType): string {
+  const date = toIsoDate(image.date) || 'undated';
+  const source = new URL(image.url).searchParams.get('storagePath') || image.url;
+  // A short hash of the source link keeps same-day filings of one type apart.
+  const hash = crypto.createHash('sha256').update(source).digest('hex').slice(0, 10);
+  return `${date}-${filingType.replace(/_/g, '-')}-${hash}.pdf`;
+}
+
+// -------------------
+// Download
+// -------------------
+
+/**
+ * Fetch a PDF from inside the page so the request carries the cookies the
+ * browser earned clearing Sunbiz's challenge.
+ */
+async function downloadPdf(page: Page, url: string): Promise<Buffer> {
+  const base64 = await page.evaluate(
+    async (pdfUrl: string, timeout: number) => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeout);
+      try {
+        const response = await fetch(pdfUrl, { credentials: 'include', signal: controller.signal });
+        if (!response.ok) throw new Error(`Document download failed with status ${response.status}`);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        let binary = '';
+        for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+          binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 0x8000)));
+        }
+        return btoa(binary);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    url,
+    DOWNLOAD_TIMEOUT
+  );
+
+  const pdf = Buffer.from(base64, 'base64');
+  if (pdf.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    throw new Error('Sunbiz returned something other than a PDF');
+  }
+  return pdf;
+}
+
+// -------------------
+// Storage
+// -------------------
+async function readManifest(folder: string): Promise<DocumentManifest | null> {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).download(`${folder}/${MANIFEST_FILE}`);
+  if (error || !data) return null;
+  return JSON.parse(await data.text()) as DocumentManifest;
+}
+
+async function writeManifest(folder: string, manifest: DocumentManifest): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) return;
+
+  const { error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(`${folder}/${MANIFEST_FILE}`, JSON.stringify(manifest, null, 2), {
+      contentType: 'application/json',
+      upsert: true,
+    });
+  if (error) throw new Error(`Manifest upload failed: ${error.message}`);
+}
+
+async function uploadPdf(storagePath: string, pdf: Buffer): Promise<string> {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) throw new Error('Supabase storage is not configured');
+
+  const bucket = supabase.storage.from(DOCUMENTS_BUCKET);
+  const { error } = await bucket.upload(storagePath, pdf, { contentType: 'application/pdf', upsert: true });
+  if (error) throw new Error(`Document upload failed: ${error.message}`);
+
+  return bucket.getPublicUrl(storagePath).data.publicUrl;
+}
+
+// -------------------
+// Archive
+// -------------------
+
+/**
+ * Download the selected document images with one browser session and store
+ * them under `<bucket>/<documentNumber>/`. Documents already in the entity's
+ * manifest are returned as-is unless `refresh` is set.
+ */
+export async function archiveSunbizDocuments(input: {
+  documentNumber: string;
+  detailUrl: string;
+  dateFiled: string;
+  images: SunbizDocumentImage[];
+  refresh?: boolean;
+}): Promise<{ documents: (ArchivedDocument & { reused: boolean })[]; errors: { sourceUrl: string; error: string }[] }> {
+  if (!getSupabaseAdmin()) {
+    throw new Error('Supabase storage is not configured');
+  }
+
+  const folder = storageFolder(input.documentNumber);
+  const manifest = (await readManifest(folder)) || { documentNumber: folder, documents: [] };
+  const archived = new Map(manifest.documents.map(document => [document.sourceUrl, document]));
+
+  const documents: (ArchivedDocument & { reused: boolean })[] = [];
+  const errors: { sourceUrl: string; error: string }[] = [];
+  const pending = input.images.filter(image => {
+    const existing = archived.get(image.url);
+    if (existing && !input.refresh) {
+      documents.push({ ...existing, reused: true });
+      return false;
+    }
+    return true;
+  });
+
+  if (pending.length > 0) {
+    await withBrowser(SUNBIZ_PROFILE, async session => {
+      const page = await session.newPage();
+      // Land on the detail page first so the challenge cookies exist for the PDF requests.
+      await page.goto(input.detailUrl || SUNBIZ_SEARCH_URL, { waitUntil: 'domcontentloaded', timeout: 60000 });
+
+      for (const image of pending) {
+        try {
+          const pdf = await downloadPdf(page, image.url);
+          const filingType = documentFilingType(image, input.dateFiled);
+          const storagePath = `${folder}/${storageFileName(image, filingType)}`;
+          const url = await uploadPdf(storagePath, pdf);
+          const year = Number(toIsoDate(image.date).slice(0, 4));
+
+          const document: ArchivedDocument = {
+            date: image.date,
+            description: image.description,
+            filingType,
+            year: year || null,
+            pageCount: countPdfPages(pdf),
+            sizeBytes: pdf.length,
+            sourceUrl: image.url,
+            storagePath,
+            url,
+            archivedAt: new Date().toISOString(),
+          };
+          archived.set(image.url, document);
+          documents.push({ ...document, reused: false });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[sunbizDocuments] Failed to archive ${image.url}:`, message);
+          errors.push({ sourceUrl: image.url, error: message });
+        }
+      }
+    });
+
+    await writeManifest(folder, { documentNumber: folder, documents: Array.from(archived.values()) });
+  }
+
+  documents.sort((a, b) => toIsoDate(a.date).localeCompare(toIsoDate(b.date)));
+  return { documents, errors };
+}
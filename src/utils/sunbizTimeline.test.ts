@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildFilingTimeline, classifyFilingEvent, normalizeAnnualReports } from '@/utils/sunbizTimeline';
+
+const NOW = new Date('2024-07-01T12:00:00Z');
+
+const input = (overrides: Partial<Parameters<typeof buildFilingTimeline>[0]> = {}) => ({
+  status: 'ACTIVE',
+  dateFiled: '03/15/2019',
+  lastEvent: '',
+  eventDateFiled: '',
+  annualReports: [
+    { reportYear: '2022', filedDate: '04/01/2022' },
+    { reportYear: '2024', filedDate: '02/10/2024' },
+  ],
+  documentImages: [],
+  ...overrides,
+});
+
+describe('normalizeAnnualReports', () => {
+  it('reads either key style and keeps both on the result', () => {
+    expect(
+      normalizeAnnualReports([
+        { report_year: 2023, filed_date: '03/01/2023' },
+        { reportYear: '2021', filedDate: '01/20/2021' },
+        { year: 'n/a' },
+      ])
+    ).toEqual([
+      { report_year: 2021, filed_date: '01/20/2021', reportYear: '2021', filedDate: '01/20/2021' },
+      { report_year: 2023, filed_date: '03/01/2023', reportYear: '2023', filedDate: '03/01/2023' },
+    ]);
+  });
+});
+
+describe('buildFilingTimeline', () => {
+  it('flags annual reports missing from the last three due years', () => {
+    const { flags } = buildFilingTimeline(input(), NOW);
+
+    expect(flags.missedAnnualReport).toBe(true);
+    expect(flags.missingAnnualReportYears).toEqual([2023]);
+  });
+
+  it('does not expect annual reports from an inactive entity', () => {
+    const { flags } = buildFilingTimeline(
+      input({ status: 'INACTIVE', lastEvent: 'ADMIN DISSOLUTION FOR ANNUAL REPORT', eventDateFiled: '09/27/2023' }),
+      NOW
+    );
+
+    expect(flags.missedAnnualReport).toBe(false);
+    expect(flags.missingAnnualReportYears).toEqual([]);
+    expect(flags.administrativelyDissolved).toBe(true);
+  });
+
+  it('orders events by date and flags a recent reinstatement', () => {
+    const { events, flags } = buildFilingTimeline(
+      input({ lastEvent: 'REINSTATEMENT', eventDateFiled: '11/02/2023' }),
+      NOW
+    );
+
+    expect(events.map(event => [event.date, event.type])).toEqual([
+      ['2019-03-15', 'filed'],
+      ['2022-04-01', 'annual_report'],
+      ['2023-11-02', 'reinstatement'],
+      ['2024-02-10', 'annual_report'],
+    ]);
+    expect(flags.reinstatedWithinLast12Months).toBe(true);
+  });
+});
+
+describe('classifyFilingEvent', () => {
+  it('recognises the common Sunbiz event names', () => {
+    expect(classifyFilingEvent('ADMIN DISSOLUTION FOR ANNUAL REPORT')).toBe('administrative_dissolution');
+    expect(classifyFilingEvent('REG. AGENT CHANGE')).toBe('registered_agent_change');
+    expect(classifyFilingEvent('LC AMENDMENT')).toBe('amendment');
+  });
+});
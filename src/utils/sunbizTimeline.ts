@@ -0,0 +1,217 @@
+import { toIsoDate } from '@/utils/dates';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type FilingEventType =
+  | 'filed'
+  | 'annual_report'
+  | 'name_change'
+  | 'amendment'
+  | 'reinstatement'
+  | 'administrative_dissolution'
+  | 'voluntary_dissolution'
+  | 'revocation'
+  | 'registered_agent_change'
+  | 'other';
+
+export interface FilingEvent {
+  // ISO date (YYYY-MM-DD) so events sort and compare as strings.
+  date: string;
+  type: FilingEventType;
+  description: string;
+  reportYear?: number;
+  source: 'filing' | 'annual_report' | 'document_image' | 'last_event';
+}
+
+export interface FilingFlags {
+  missedAnnualReport: boolean;
+  missingAnnualReportYears: number[];
+  administrativelyDissolved: boolean;
+  reinstatedWithinLast12Months: boolean;
+}
+
+export interface AnnualReport {
+  report_year: number;
+  filed_date: string;
+  // The keys `annual_reports` had before the timeline normalized it, for readers that still use them.
+  reportYear: string;
+  filedDate: string;
+}
+
+export interface FilingTimelineInput {
+  status: string;
+  dateFiled: string;
+  lastEvent: string;
+  eventDateFiled: string;
+  annualReports: unknown;
+  documentImages: unknown;
+}
+
+// -------------------
+// Configuration
+// -------------------
+// Florida annual reports are due between January 1 and May 1 each year after filing.
+const ANNUAL_REPORT_DEADLINE_MONTH = 4; // May, zero-based
+const ANNUAL_REPORT_DEADLINE_DAY = 1;
+// Sunbiz only lists the three most recent annual reports, so older gaps can't be seen.
+const ANNUAL_REPORT_LOOKBACK_YEARS = 3;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const EVENT_PATTERNS: [RegExp, FilingEventType][] = [
+  [/admin\w*\.?\s*diss/i, 'administrative_dissolution'],
+  [/reinstat/i, 'reinstatement'],
+  [/revoc|revoked/i, 'revocation'],
+  [/vol\w*\.?\s*diss|dissolution|withdrawal/i, 'voluntary_dissolution'],
+  [/name\s*change/i, 'name_change'],
+  [/reg\w*\.?\s*agent|\bra\b/i, 'registered_agent_change'],
+  [/amend|merger|conversion|correction/i, 'amendment'],
+  [/annual\s*report/i, 'annual_report'],
+];
+
+// -------------------
+// Helper Functions
+// -------------------
+function readString(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+export function classifyFilingEvent(description: string): FilingEventType {
+  const match = EVENT_PATTERNS.find(([pattern]) => pattern.test(description));
+  return match ? match[1] : 'other';
+}
+
+export function normalizeAnnualReports(reports: unknown): AnnualReport[] {
+  if (!Array.isArray(reports)) return [];
+
+  return reports
+    .map(report => {
+      const value = (report || {}) as Record<string, unknown>;
+      const year = Number(readString(value.report_year ?? value.reportYear ?? value.year));
+      const filedDate = readString(value.filed_date ?? value.filedDate ?? value.date);
+      return { report_year: year, filed_date: filedDate, reportYear: String(year), filedDate };
+    })
+    .filter(report => Number.isInteger(report.report_year) && report.report_year > 1900)
+    .sort((a, b) => a.report_year - b.report_year);
+}
+
+export function normalizeDocumentImages(images: unknown): { date: string; description: string; url: string }[] {
+  if (!Array.isArray(images)) return [];
+
+  return images
+    .map(image => {
+      const value = (image || {}) as Record<string, unknown>;
+      return {
+        date: readString(value.date ?? value.filedDate),
+        description: readString(value.description ?? value.type ?? value.title),
+        url: readString(value.url ?? value.link),
+      };
+    })
+    .filter(image => image.date || image.description);
+}
+
+/**
+ * Years whose annual report deadline has passed since the entity was filed.
+ */
+function dueAnnualReportYears(dateFiled: string, now: Date): number[] {
+  const filedYear = Number(dateFiled.slice(0, 4));
+  if (!filedYear) return [];
+
+  const deadlinePassed =
+    now.getMonth() > ANNUAL_REPORT_DEADLINE_MONTH ||
+    (now.getMonth() === ANNUAL_REPORT_DEADLINE_MONTH && now.getDate() > ANNUAL_REPORT_DEADLINE_DAY);
+  const lastDueYear = deadlinePassed ? now.getFullYear() : now.getFullYear() - 1;
+  const firstYear = Math.max(filedYear + 1, lastDueYear - ANNUAL_REPORT_LOOKBACK_YEARS + 1);
+
+  const years: number[] = [];
+  for (let year = firstYear; year <= lastDueYear; year++) {
+    years.push(year);
+  }
+  return years;
+}
+
+function dedupeEvents(events: FilingEvent[]): FilingEvent[] {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    const key = `${event.date}|${event.type}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// -------------------
+// Timeline
+// -------------------
+
+/**
+ * Merge the filing date, annual reports, document images and last event into
+ * one chronological list and derive compliance flags from it.
+ */
+export function buildFilingTimeline(input: FilingTimelineInput, now = new Date()) {
+  const events: FilingEvent[] = [];
+  const dateFiled = toIsoDate(input.dateFiled);
+  const annualReports = normalizeAnnualReports(input.annualReports);
+
+  if (dateFiled) {
+    events.push({ date: dateFiled, type: 'filed', description: 'Entity filed', source: 'filing' });
+  }
+
+  for (const report of annualReports) {
+    const date = toIsoDate(report.filed_date);
+    if (!date) continue;
+    events.push({
+      date,
+      type: 'annual_report',
+      description: `${report.report_year} annual report`,
+      reportYear: report.report_year,
+      source: 'annual_report',
+    });
+  }
+
+  for (const image of normalizeDocumentImages(input.documentImages)) {
+    const date = toIsoDate(image.date);
+    const type = classifyFilingEvent(image.description);
+    // Annual reports come from their own table; the original filing image duplicates `filed`.
+    if (!date || type === 'annual_report' || (type === 'other' && date === dateFiled)) continue;
+    events.push({ date, type, description: image.description, source: 'document_image' });
+  }
+
+  const lastEventDate = toIsoDate(input.eventDateFiled);
+  if (input.lastEvent && lastEventDate) {
+    const type = classifyFilingEvent(input.lastEvent);
+    if (type !== 'annual_report') {
+      events.push({ date: lastEventDate, type, description: input.lastEvent, source: 'last_event' });
+    }
+  }
+
+  const timeline = dedupeEvents(events.sort((a, b) => a.date.localeCompare(b.date)));
+
+  // Only an active entity owes annual reports; a dissolved one isn't missing any.
+  const active = /^active\b/i.test(input.status);
+  const reportedYears = new Set(annualReports.map(report => report.report_year));
+  const missingAnnualReportYears = active
+    ? dueAnnualReportYears(dateFiled, now).filter(year => !reportedYears.has(year))
+    : [];
+
+  const statusEvents = timeline.filter(
+    event => event.type === 'administrative_dissolution' || event.type === 'reinstatement'
+  );
+  const latestStatusEvent = statusEvents[statusEvents.length - 1];
+  const administrativelyDissolved =
+    !active &&
+    (latestStatusEvent?.type === 'administrative_dissolution' || classifyFilingEvent(input.lastEvent) === 'administrative_dissolution');
+
+  const reinstatedWithinLast12Months = timeline.some(
+    event => event.type === 'reinstatement' && now.getTime() - new Date(event.date).getTime() <= YEAR_MS
+  );
+
+  const flags: FilingFlags = {
+    missedAnnualReport: missingAnnualReportYears.length > 0,
+    missingAnnualReportYears,
+    administrativelyDissolved,
+    reinstatedWithinLast12Months,
+  };
+
+  return { events: timeline, flags, annualReports };
+}
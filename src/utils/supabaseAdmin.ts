@@ -0,0 +1,20 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null | undefined;
+
+/**
+ * Service-role Supabase client for server-side persistence, or null when the
+ * deployment has no Supabase credentials (local development, previews).
+ */
+export function getSupabaseAdmin(): SupabaseClient | null {
+  if (client !== undefined) return client;
+
+  const supabaseUrl = process.env.VITE_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  client = supabaseUrl && supabaseServiceKey
+    ? createClient(supabaseUrl, supabaseServiceKey, { auth: { persistSession: false } })
+    : null;
+
+  return client;
+}
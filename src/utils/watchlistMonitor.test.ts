@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { diffWatchSnapshots } from '@/utils/watchlistMonitor';
+import type { WatchSnapshot } from '@/utils/watchlistStore';
+
+const snapshot = (dbpr: WatchSnapshot['dbpr']): WatchSnapshot => ({
+  takenAt: '2024-07-01T00:00:00.000Z',
+  sources: { dbpr: 'success' },
+  sunbiz: null,
+  dbpr,
+  workersComp: null,
+  bbb: null,
+});
+
+describe('diffWatchSnapshots', () => {
+  it('compares DBPR status per license number', () => {
+    const previous = snapshot({
+      status: 'Current,Active',
+      complaints: [],
+      licenses: [
+        { number: 'CCC1330000', status: 'Current,Active', complaints: [] },
+        { number: 'CGC1500000', status: 'Current,Active', complaints: [] },
+      ],
+    });
+    // Same first license, reordered results, second license lapsed.
+    const current = snapshot({
+      status: 'Delinquent',
+      complaints: [],
+      licenses: [
+        { number: 'CGC1500000', status: 'Delinquent', complaints: [] },
+        { number: 'CCC1330000', status: 'Current,Active', complaints: [] },
+      ],
+    });
+
+    expect(diffWatchSnapshots(previous, current)).toEqual([
+      {
+        source: 'dbpr',
+        kind: 'status_changed',
+        previous: { license: 'CGC1500000', status: 'Current,Active' },
+        current: { license: 'CGC1500000', status: 'Delinquent' },
+        description: 'DBPR license CGC1500000 status changed from Current,Active to Delinquent',
+      },
+    ]);
+  });
+
+  it('falls back to the single status for snapshots without licenses', () => {
+    const previous = snapshot({ status: 'Current,Active', complaints: [] });
+    const current = snapshot({ status: 'Null and Void', complaints: [], licenses: [] });
+
+    expect(diffWatchSnapshots(previous, current).map(change => change.description)).toEqual([
+      'DBPR license status changed from Current,Active to Null and Void',
+    ]);
+  });
+});
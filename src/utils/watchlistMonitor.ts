@@ -0,0 +1,352 @@
+import crypto from 'crypto';
+import { buildCompanyProfile, CompanyProfile, PROFILE_SOURCES, ProfileSourceName } from '@/utils/companyProfile';
+import { signCallbackBody } from '@/utils/jobRunner';
+import { checkCallbackUrl } from '@/utils/outboundUrl';
+import {
+  appendWatchChanges,
+  claimWatchedCompany,
+  listDueWatchedCompanies,
+  saveWatchedCompany,
+  WatchAlertDelivery,
+  WatchChange,
+  WatchedCompany,
+  WatchedLicense,
+  WatchSnapshot,
+} from '@/utils/watchlistStore';
+
+// -------------------
+// Type Definitions
+// -------------------
+type DetectedChange = Omit<WatchChange, 'id' | 'watchId' | 'detectedAt'>;
+
+export interface WatchCheckResult {
+  id: string;
+  label: string;
+  // `skipped` when another run had already claimed the check.
+  status: 'baseline' | 'unchanged' | 'changed' | 'failed' | 'skipped';
+  changes: WatchChange[];
+  alert: WatchAlertDelivery | null;
+  error?: string;
+}
+
+// -------------------
+// Configuration
+// -------------------
+const WATCH_SOURCE_TIMEOUT_MS = Number(process.env.WATCHLIST_SOURCE_TIMEOUT_MS) || 240000;
+const ALERT_TIMEOUT_MS = 15000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Best first; anything unlisted (NR, empty) is treated as unrated and never compared.
+const BBB_RATINGS = ['A+', 'A', 'A-', 'B+', 'B', 'B-', 'C+', 'C', 'C-', 'D+', 'D', 'D-', 'F'];
+
+// -------------------
+// Snapshots
+// -------------------
+function complaintId(complaint: any): string {
+  return String(complaint?.number || [complaint?.class, complaint?.incidentDate].filter(Boolean).join(' ')).trim();
+}
+
+/**
+ * Status and complaints per license number. A license whose complaints page
+ * couldn't be read keeps its complaints from `previous`, so they aren't
+ * reported as new once the page reads again.
+ */
+function snapshotDbprLicenses(licenses: any[], previous: WatchedLicense[] | undefined): WatchedLicense[] {
+  return licenses
+    .filter(license => license && (license.licenseNumber || license.licenseeName))
+    .map(license => {
+      const number = String(license.licenseNumber || license.licenseeName);
+      const complaints = Array.isArray(license.complaints)
+        ? license.complaints
+            .map((complaint: any) => ({ number: complaintId(complaint), status: String(complaint?.status || '') }))
+            .filter((complaint: { number: string }) => complaint.number)
+        : previous?.find(item => item.number === number)?.complaints ?? null;
+      return { number, status: String(license.status || ''), complaints };
+    });
+}
+
+/**
+ * Reduce a profile to the fields worth alerting on. A source that didn't come
+ * back successfully keeps its value from `previous`, so a failed scrape is
+ * never reported as the company losing its license or coverage.
+ */
+export function takeWatchSnapshot(profile: CompanyProfile, previous: WatchSnapshot | null): WatchSnapshot {
+  const succeeded = (name: ProfileSourceName) => profile.sources[name]?.status === 'success';
+  const dbprLicenses = profile.raw.dbpr?.licenses || [profile.raw.dbpr?.data];
+  const licenses = snapshotDbprLicenses(Array.isArray(dbprLicenses) ? dbprLicenses : [], previous?.dbpr?.licenses);
+
+  return {
+    takenAt: new Date().toISOString(),
+    sources: Object.fromEntries(
+      Object.entries(profile.sources).map(([name, report]) => [name, report.status])
+    ),
+    sunbiz:
+      succeeded('sunbiz') && profile.sunbiz
+        ? {
+            status: profile.sunbiz.status,
+            officers: profile.sunbiz.officers.map(officer => officer.name).filter(Boolean).sort(),
+          }
+        : previous?.sunbiz || null,
+    dbpr:
+      succeeded('dbpr') && profile.dbpr
+        ? {
+            status: profile.dbpr.status,
+            complaints: licenses.flatMap(license => license.complaints || []),
+            licenses,
+          }
+        : previous?.dbpr || null,
+    workersComp:
+      succeeded('workersComp') && profile.workersComp
+        ? {
+            hasPolicyInEffect: profile.workersComp.hasPolicyInEffect,
+            hasExemption: profile.workersComp.hasExemption,
+          }
+        : previous?.workersComp || null,
+    bbb: succeeded('bbb') && profile.bbb ? { rating: profile.bbb.rating } : previous?.bbb || null,
+  };
+}
+
+// -------------------
+// Diffing
+// -------------------
+export function diffWatchSnapshots(previous: WatchSnapshot, current: WatchSnapshot): DetectedChange[] {
+  const changes: DetectedChange[] = [];
+
+  if (previous.sunbiz && current.sunbiz) {
+    if (previous.sunbiz.status && current.sunbiz.status && previous.sunbiz.status !== current.sunbiz.status) {
+      changes.push({
+        source: 'sunbiz',
+        kind: 'status_changed',
+        previous: previous.sunbiz.status,
+        current: current.sunbiz.status,
+        description: `Sunbiz status changed from ${previous.sunbiz.status} to ${current.sunbiz.status}`,
+      });
+    }
+
+    const before = new Set(previous.sunbiz.officers);
+    const after = new Set(current.sunbiz.officers);
+    for (const officer of current.sunbiz.officers.filter(name => !before.has(name))) {
+      changes.push({
+        source: 'sunbiz',
+        kind: 'officer_added',
+        previous: null,
+        current: officer,
+        description: `New Sunbiz officer: ${officer}`,
+      });
+    }
+    for (const officer of previous.sunbiz.officers.filter(name => !after.has(name))) {
+      changes.push({
+        source: 'sunbiz',
+        kind: 'officer_removed',
+        previous: officer,
+        current: null,
+        description: `Sunbiz officer removed: ${officer}`,
+      });
+    }
+  }
+
+  if (previous.dbpr && current.dbpr) {
+    if (previous.dbpr.licenses && current.dbpr.licenses) {
+      // Compared by license number, so a reordered search result isn't a status change.
+      const before = new Map(previous.dbpr.licenses.map(license => [license.number, license.status]));
+      for (const license of current.dbpr.licenses) {
+        const status = before.get(license.number);
+        if (status && license.status && status !== license.status) {
+          changes.push({
+            source: 'dbpr',
+            kind: 'status_changed',
+            previous: { license: license.number, status },
+            current: { license: license.number, status: license.status },
+            description: `DBPR license ${license.number} status changed from ${status} to ${license.status}`,
+          });
+        }
+      }
+    } else if (previous.dbpr.status && current.dbpr.status && previous.dbpr.status !== current.dbpr.status) {
+      changes.push({
+        source: 'dbpr',
+        kind: 'status_changed',
+        previous: previous.dbpr.status,
+        current: current.dbpr.status,
+        description: `DBPR license status changed from ${previous.dbpr.status} to ${current.dbpr.status}`,
+      });
+    }
+
+    const known = new Set(previous.dbpr.complaints.map(complaint => complaint.number));
+    for (const complaint of current.dbpr.complaints.filter(item => !known.has(item.number))) {
+      changes.push({
+        source: 'dbpr',
+        kind: 'complaint_added',
+        previous: null,
+        current: complaint,
+        description: `New DBPR complaint ${complaint.number}${complaint.status ? ` (${complaint.status})` : ''}`,
+      });
+    }
+  }
+
+  if (previous.workersComp && current.workersComp) {
+    const wasCovered = previous.workersComp.hasPolicyInEffect || previous.workersComp.hasExemption;
+    const isCovered = current.workersComp.hasPolicyInEffect || current.workersComp.hasExemption;
+    if (wasCovered !== isCovered) {
+      changes.push({
+        source: 'workersComp',
+        kind: isCovered ? 'coverage_started' : 'coverage_lapsed',
+        previous: previous.workersComp,
+        current: current.workersComp,
+        description: isCovered
+          ? 'Workers comp coverage or exemption is now on file'
+          : 'Workers comp coverage lapsed: no policy in effect and no exemption',
+      });
+    }
+  }
+
+  if (previous.bbb && current.bbb) {
+    const before = BBB_RATINGS.indexOf(previous.bbb.rating);
+    const after = BBB_RATINGS.indexOf(current.bbb.rating);
+    if (before >= 0 && after >= 0 && before !== after) {
+      changes.push({
+        source: 'bbb',
+        kind: after > before ? 'rating_dropped' : 'rating_raised',
+        previous: previous.bbb.rating,
+        current: current.bbb.rating,
+        description: `BBB rating ${after > before ? 'dropped' : 'rose'} from ${previous.bbb.rating} to ${current.bbb.rating}`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+// -------------------
+// Alerts
+// -------------------
+
+/**
+ * POST the changes to the company's webhook (or WATCHLIST_WEBHOOK_URL),
+ * signed the same way as job callbacks.
+ */
+async function deliverWatchAlert(company: WatchedCompany, changes: WatchChange[]): Promise<WatchAlertDelivery | null> {
+  const url = company.webhookUrl || process.env.WATCHLIST_WEBHOOK_URL;
+  if (!url || !changes.length) return null;
+
+  // A company's own webhook was supplied by a caller, so it gets the same check as job callbacks.
+  const webhookError = company.webhookUrl ? await checkCallbackUrl(company.webhookUrl, 'Webhook URL') : null;
+  if (webhookError) {
+    return { status: 'failed', error: webhookError, at: new Date().toISOString() };
+  }
+
+  const body = JSON.stringify({
+    id: company.id,
+    label: company.label,
+    input: company.input,
+    checkedAt: company.lastCheckedAt,
+    changes,
+  });
+  const signature = signCallbackBody(body);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ALERT_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(signature ? { 'X-Watchlist-Signature': `sha256=${signature}` } : {}),
+      },
+      body,
+      signal: controller.signal,
+    });
+
+    return {
+      status: response.ok ? 'delivered' : 'failed',
+      httpStatus: response.status,
+      at: new Date().toISOString(),
+    };
+  } catch (error) {
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      at: new Date().toISOString(),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// -------------------
+// Checks
+// -------------------
+
+/**
+ * Re-fetch one company's profile, bypassing the cache, and record what changed
+ * since the last check. The first check only records a baseline. Never throws,
+ * so one company can't stop the rest of a batch.
+ */
+export async function checkWatchedCompany(baseUrl: string, company: WatchedCompany): Promise<WatchCheckResult> {
+  const checkedAt = new Date();
+
+  try {
+    const claimed = await claimWatchedCompany(company, item => {
+      item.lastCheckedAt = checkedAt.toISOString();
+      item.nextCheckAt = new Date(checkedAt.getTime() + item.intervalHours * HOUR_MS).toISOString();
+    });
+    if (!claimed) {
+      return { id: company.id, label: company.label, status: 'skipped', changes: [], alert: null };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { id: company.id, label: company.label, status: 'failed', changes: [], alert: null, error: errorMessage };
+  }
+
+  try {
+    const profile = await buildCompanyProfile(
+      baseUrl,
+      { ...company.input, cache: 'bypass' },
+      { timeoutMs: WATCH_SOURCE_TIMEOUT_MS, sources: company.sources || PROFILE_SOURCES }
+    );
+
+    const previous = company.lastSnapshot;
+    const snapshot = takeWatchSnapshot(profile, previous);
+    const changes: WatchChange[] = (previous ? diffWatchSnapshots(previous, snapshot) : []).map(change => ({
+      id: crypto.randomUUID(),
+      watchId: company.id,
+      detectedAt: snapshot.takenAt,
+      ...change,
+    }));
+
+    await appendWatchChanges(company.id, changes);
+    const alert = await deliverWatchAlert(company, changes);
+
+    company.lastSnapshot = snapshot;
+    company.lastCheck = { status: 'succeeded', changes: changes.length, alert };
+    await saveWatchedCompany(company);
+
+    return {
+      id: company.id,
+      label: company.label,
+      status: !previous ? 'baseline' : changes.length ? 'changed' : 'unchanged',
+      changes,
+      alert,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    company.lastCheck = { status: 'failed', changes: 0, error: errorMessage };
+    try {
+      await saveWatchedCompany(company);
+    } catch (saveError) {
+      console.error(
+        `[watchlist] Failed to record the failed check of ${company.id}:`,
+        saveError instanceof Error ? saveError.message : String(saveError)
+      );
+    }
+    return { id: company.id, label: company.label, status: 'failed', changes: [], alert: null, error: errorMessage };
+  }
+}
+
+/**
+ * Check the companies that are due, up to `limit`, concurrently. Each profile
+ * fans out to the scraper routes, so this invocation mostly waits on them.
+ */
+export async function runWatchlist(baseUrl: string, options: { limit: number }): Promise<WatchCheckResult[]> {
+  const due = await listDueWatchedCompanies(new Date(), options.limit);
+  return Promise.all(due.map(company => checkWatchedCompany(baseUrl, company)));
+}
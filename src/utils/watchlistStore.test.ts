@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { claimWatchedCompany, createWatchedCompany, getWatchedCompany } from '@/utils/watchlistStore';
+import type { WatchedCompany } from '@/utils/watchlistStore';
+
+describe('claimWatchedCompany (file store)', () => {
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'watchlist-test-'));
+    vi.stubEnv('LOCAL_DATA_DIR', dataDir);
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('lets only one of two overlapping runs claim a due check', async () => {
+    const company = await createWatchedCompany({ input: { companyName: 'Acme Roofing LLC' } });
+    const nextCheckAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    const start = (claimed: WatchedCompany) => {
+      claimed.nextCheckAt = nextCheckAt;
+    };
+
+    // Each run works on its own copy, as it would after listing the due companies.
+    const claims = await Promise.all([
+      claimWatchedCompany({ ...company }, start),
+      claimWatchedCompany({ ...company }, start),
+    ]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect((await getWatchedCompany(company.id))?.nextCheckAt).toBe(nextCheckAt);
+  });
+});
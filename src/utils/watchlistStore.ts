@@ -0,0 +1,296 @@
+import crypto from 'crypto';
+import type { CompanyProfileInput, ProfileSourceName, ProfileSourceStatus } from '@/utils/companyProfile';
+import { getSupabaseAdmin } from '@/utils/supabaseAdmin';
+import { createJsonFile, deleteJsonFile, listJsonFiles, readJsonFile, writeJsonFile } from '@/utils/fileStore';
+
+// -------------------
+// Type Definitions
+// -------------------
+
+/** One DBPR license in a snapshot. `complaints` is null when its complaints page couldn't be read. */
+export interface WatchedLicense {
+  number: string;
+  status: string;
+  complaints: { number: string; status: string }[] | null;
+}
+
+/** The parts of a company profile that are compared between checks. */
+export interface WatchSnapshot {
+  takenAt: string;
+  sources: Partial<Record<ProfileSourceName, ProfileSourceStatus>>;
+  sunbiz: { status: string; officers: string[] } | null;
+  dbpr: {
+    // The first license's status; kept so snapshots from before `licenses` still diff.
+    status: string;
+    complaints: { number: string; status: string }[];
+    licenses?: WatchedLicense[];
+  } | null;
+  workersComp: { hasPolicyInEffect: boolean; hasExemption: boolean } | null;
+  bbb: { rating: string } | null;
+}
+
+export type WatchChangeKind =
+  | 'status_changed'
+  | 'officer_added'
+  | 'officer_removed'
+  | 'complaint_added'
+  | 'coverage_lapsed'
+  | 'coverage_started'
+  | 'rating_dropped'
+  | 'rating_raised';
+
+export interface WatchChange {
+  id: string;
+  watchId: string;
+  detectedAt: string;
+  source: ProfileSourceName;
+  kind: WatchChangeKind;
+  previous: unknown;
+  current: unknown;
+  description: string;
+}
+
+export interface WatchAlertDelivery {
+  status: 'delivered' | 'failed';
+  httpStatus?: number;
+  error?: string;
+  at: string;
+}
+
+export interface WatchedCompany {
+  id: string;
+  label: string;
+  input: Omit<CompanyProfileInput, 'cache'>;
+  // Profile sources to check; all of them when null.
+  sources: ProfileSourceName[] | null;
+  webhookUrl: string | null;
+  intervalHours: number;
+  createdAt: string;
+  updatedAt: string;
+  lastCheckedAt: string | null;
+  nextCheckAt: string;
+  lastSnapshot: WatchSnapshot | null;
+  lastCheck: {
+    status: 'succeeded' | 'failed';
+    changes: number;
+    error?: string;
+    alert?: WatchAlertDelivery | null;
+  } | null;
+}
+
+// -------------------
+// Configuration
+// -------------------
+const COMPANIES_TABLE = 'watched_companies';
+const CHANGES_TABLE = 'watch_changes';
+export const DEFAULT_INTERVAL_HOURS = 24;
+
+// -------------------
+// Helper Functions
+// -------------------
+function companyFilePath(id: string): string {
+  return `watchlist/${id}.json`;
+}
+
+function claimFilePath(id: string, dueAt: string): string {
+  return `watchlist-claims/${id}/${dueAt.replace(/[^0-9TZ]/g, '')}.json`;
+}
+
+function changesFilePath(id: string): string {
+  return `watchlist-changes/${id}.json`;
+}
+
+export function isWatchId(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f-]{36}$/i.test(value);
+}
+
+// -------------------
+// Storage
+// -------------------
+export async function saveWatchedCompany(company: WatchedCompany): Promise<void> {
+  company.updatedAt = new Date().toISOString();
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { error } = await supabase.from(COMPANIES_TABLE).upsert(
+      {
+        id: company.id,
+        company,
+        next_check_at: company.nextCheckAt,
+        created_at: company.createdAt,
+        updated_at: company.updatedAt,
+      },
+      { onConflict: 'id' }
+    );
+    if (error) throw new Error(`Watchlist save failed: ${error.message}`);
+    return;
+  }
+
+  await writeJsonFile(companyFilePath(company.id), company);
+}
+
+/**
+ * Claim the company's next check so overlapping runs (the cron and a manual
+ * run, say) don't both check it and send the same alerts. Only one caller wins
+ * per `nextCheckAt`; `start` moves it on before the conditional write.
+ */
+export async function claimWatchedCompany(company: WatchedCompany, start: (company: WatchedCompany) => void): Promise<boolean> {
+  const dueAt = company.nextCheckAt;
+  start(company);
+  company.updatedAt = new Date().toISOString();
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(COMPANIES_TABLE)
+      .update({ company, next_check_at: company.nextCheckAt, updated_at: company.updatedAt })
+      .eq('id', company.id)
+      .eq('next_check_at', dueAt)
+      .select('id');
+    if (error) throw new Error(`Watchlist claim failed: ${error.message}`);
+    return Boolean(data?.length);
+  }
+
+  // Without a database the claim file is the lock, as for jobs.
+  if (!(await createJsonFile(claimFilePath(company.id, dueAt), { id: company.id, claimedAt: company.updatedAt }))) {
+    return false;
+  }
+  await writeJsonFile(companyFilePath(company.id), company);
+  return true;
+}
+
+export async function getWatchedCompany(id: string): Promise<WatchedCompany | null> {
+  if (!isWatchId(id)) return null;
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase.from(COMPANIES_TABLE).select('company').eq('id', id).maybeSingle();
+    if (error) throw new Error(`Watchlist read failed: ${error.message}`);
+    return data ? (data.company as WatchedCompany) : null;
+  }
+
+  return readJsonFile<WatchedCompany>(companyFilePath(id));
+}
+
+export async function listWatchedCompanies(): Promise<WatchedCompany[]> {
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase.from(COMPANIES_TABLE).select('company').order('created_at');
+    if (error) throw new Error(`Watchlist read failed: ${error.message}`);
+    return (data || []).map(row => row.company as WatchedCompany);
+  }
+
+  const ids = await listJsonFiles('watchlist');
+  const companies = await Promise.all(ids.map(id => readJsonFile<WatchedCompany>(companyFilePath(id))));
+  return companies
+    .filter((company): company is WatchedCompany => Boolean(company))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Companies whose next check is due, longest-overdue first. */
+export async function listDueWatchedCompanies(now: Date, limit: number): Promise<WatchedCompany[]> {
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(COMPANIES_TABLE)
+      .select('company')
+      .lte('next_check_at', now.toISOString())
+      .order('next_check_at')
+      .limit(limit);
+    if (error) throw new Error(`Watchlist read failed: ${error.message}`);
+    return (data || []).map(row => row.company as WatchedCompany);
+  }
+
+  const companies = await listWatchedCompanies();
+  return companies
+    .filter(company => new Date(company.nextCheckAt) <= now)
+    .sort((a, b) => a.nextCheckAt.localeCompare(b.nextCheckAt))
+    .slice(0, limit);
+}
+
+export async function createWatchedCompany(input: {
+  label?: string;
+  input: Omit<CompanyProfileInput, 'cache'>;
+  sources?: ProfileSourceName[] | null;
+  webhookUrl?: string | null;
+  intervalHours?: number;
+}): Promise<WatchedCompany> {
+  const now = new Date().toISOString();
+  const company: WatchedCompany = {
+    id: crypto.randomUUID(),
+    label: input.label || input.input.companyName,
+    input: input.input,
+    sources: input.sources?.length ? input.sources : null,
+    webhookUrl: input.webhookUrl || null,
+    intervalHours: input.intervalHours || DEFAULT_INTERVAL_HOURS,
+    createdAt: now,
+    updatedAt: now,
+    lastCheckedAt: null,
+    // Due straight away, so the first run records a baseline snapshot.
+    nextCheckAt: now,
+    lastSnapshot: null,
+    lastCheck: null,
+  };
+
+  await saveWatchedCompany(company);
+  return company;
+}
+
+export async function deleteWatchedCompany(id: string): Promise<boolean> {
+  if (!isWatchId(id)) return false;
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    // Change history goes with it (on delete cascade).
+    const { data, error } = await supabase.from(COMPANIES_TABLE).delete().eq('id', id).select('id');
+    if (error) throw new Error(`Watchlist delete failed: ${error.message}`);
+    return Boolean(data?.length);
+  }
+
+  const existing = await readJsonFile<WatchedCompany>(companyFilePath(id));
+  if (!existing) return false;
+  await deleteJsonFile(companyFilePath(id));
+  await deleteJsonFile(changesFilePath(id));
+  return true;
+}
+
+export async function appendWatchChanges(id: string, changes: WatchChange[]): Promise<void> {
+  if (!changes.length) return;
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { error } = await supabase.from(CHANGES_TABLE).insert(
+      changes.map(change => ({
+        id: change.id,
+        watch_id: id,
+        detected_at: change.detectedAt,
+        change,
+      }))
+    );
+    if (error) throw new Error(`Watch change save failed: ${error.message}`);
+    return;
+  }
+
+  const history = (await readJsonFile<WatchChange[]>(changesFilePath(id))) || [];
+  await writeJsonFile(changesFilePath(id), [...history, ...changes]);
+}
+
+/** Every change recorded for a company, newest first. */
+export async function getWatchChanges(id: string): Promise<WatchChange[]> {
+  const supabase = getSupabaseAdmin();
+
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(CHANGES_TABLE)
+      .select('change')
+      .eq('watch_id', id)
+      .order('detected_at', { ascending: false });
+    if (error) throw new Error(`Watch change read failed: ${error.message}`);
+    return (data || []).map(row => row.change as WatchChange);
+  }
+
+  const history = (await readJsonFile<WatchChange[]>(changesFilePath(id))) || [];
+  return history.slice().reverse();
+}
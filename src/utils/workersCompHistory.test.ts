@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { buildCoverageHistory } from '@/utils/workersCompHistory';
+import type { CoveragePolicy } from '@/utils/workersCompParser';
+
+const policy = (policyNumber: string, effectiveDate: string, expirationDate: string): CoveragePolicy => ({
+  employerName: 'ACME ROOFING LLC',
+  fein: '591234567',
+  address: '',
+  carrier: '',
+  policyNumber,
+  effectiveDate,
+  expirationDate,
+  cancellationDate: '',
+  governingClassCode: '5551',
+  status: 'active',
+  statusText: '',
+});
+
+const POLICIES = [policy('A-1', '01/01/2023', '07/01/2023'), policy('A-2', '08/01/2023', '08/01/2024')];
+const WINDOW = { from: '2023-01-01', to: '2024-06-30', jobDates: ['2023-07-15', '2024-02-01'] };
+
+describe('buildCoverageHistory', () => {
+  it('reports gaps and job-date verdicts when past policies are listed', () => {
+    const history = buildCoverageHistory(POLICIES, { ...WINDOW, includesPastPolicies: true });
+
+    expect(history.gaps).toEqual([{ start: '2023-07-01', end: '2023-07-31', days: 31 }]);
+    expect(history.uncoveredDays).toBe(31);
+    expect(history.continuous).toBe(false);
+    expect(history.jobDates.map(answer => answer.covered)).toEqual([false, true]);
+  });
+
+  it('leaves gap and negative verdicts unknown without past policies', () => {
+    const history = buildCoverageHistory(POLICIES.slice(1), { ...WINDOW, includesPastPolicies: false });
+
+    expect(history.periods).toEqual([{ start: '2023-08-01', end: '2024-08-01', policyNumbers: ['A-2'] }]);
+    expect(history.gaps).toBeNull();
+    expect(history.uncoveredDays).toBeNull();
+    expect(history.continuous).toBeNull();
+    expect(history.jobDates).toEqual([
+      { date: '2023-07-15', covered: null, policyNumbers: [] },
+      { date: '2024-02-01', covered: true, policyNumbers: ['A-2'] },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { toIsoDate } from '@/utils/dates';
+import type { CoveragePolicy } from '@/utils/workersCompParser';
+
+// -------------------
+// Type Definitions
+// -------------------
+
+/**
+ * Continuous coverage built from one or more overlapping or back-to-back
+ * policies. `start` is the first covered day; `end` is the day coverage ends,
+ * as on a policy's expiration date, so it is not itself covered.
+ */
+export interface CoveragePeriod {
+  start: string;
+  end: string;
+  policyNumbers: string[];
+}
+
+/** Uncovered days inside the history window; `start` and `end` are both uncovered. */
+export interface CoverageGap {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface CoveredOnAnswer {
+  date: string;
+  // Null when no listed policy covers `date` but past policies weren't listed.
+  covered: boolean | null;
+  // The policies making up the period that covers `date`.
+  policyNumbers: string[];
+}
+
+/**
+ * Gaps and the continuity verdict need every policy in the window. When DWC
+ * only listed current policies (`includesPastPolicies` false) they are null,
+ * since an older policy could have covered any apparent gap.
+ */
+export interface CoverageHistory {
+  from: string;
+  to: string;
+  includesPastPolicies: boolean;
+  periods: CoveragePeriod[];
+  gaps: CoverageGap[] | null;
+  uncoveredDays: number | null;
+  continuous: boolean | null;
+  jobDates: CoveredOnAnswer[];
+  // Policies left out because their dates couldn't be read.
+  skippedPolicies: number;
+}
+
+// -------------------
+// Configuration
+// -------------------
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// -------------------
+// Helper Functions
+// -------------------
+const toDay = (iso: string) => Date.parse(`${iso}T00:00:00Z`) / DAY_MS;
+const fromDay = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+/** The days a policy actually covered: cancellation cuts it short. */
+function policySpan(policy: CoveragePolicy): { start: number; end: number } | null {
+  const effective = toIsoDate(policy.effectiveDate);
+  const expiration = toIsoDate(policy.expirationDate);
+  if (!effective || !expiration) return null;
+
+  const cancelled = toIsoDate(policy.cancellationDate);
+  const end = cancelled && cancelled < expiration ? cancelled : expiration;
+  return end > effective ? { start: toDay(effective), end: toDay(end) } : null;
+}
+
+// -------------------
+// History
+// -------------------
+
+/**
+ * Merge policies into continuous periods, oldest first. A policy starting on
+ * the day the previous one expires continues the same period.
+ */
+export function mergeCoveragePeriods(policies: CoveragePolicy[]): CoveragePeriod[] {
+  const spans = policies
+    .map(policy => ({ policy, span: policySpan(policy) }))
+    .filter((item): item is { policy: CoveragePolicy; span: { start: number; end: number } } => item.span !== null)
+    .sort((a, b) => a.span.start - b.span.start);
+
+  const merged: { start: number; end: number; policyNumbers: string[] }[] = [];
+  for (const { policy, span } of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      if (policy.policyNumber && !last.policyNumbers.includes(policy.policyNumber)) {
+        last.policyNumbers.push(policy.policyNumber);
+      }
+    } else {
+      merged.push({ ...span, policyNumbers: policy.policyNumber ? [policy.policyNumber] : [] });
+    }
+  }
+
+  return merged.map(period => ({
+    start: fromDay(period.start),
+    end: fromDay(period.end),
+    policyNumbers: period.policyNumbers,
+  }));
+}
+
+/** Whether any period covers `date` (ISO or MM/DD/YYYY). */
+export function coveredOn(periods: CoveragePeriod[], date: string): CoveredOnAnswer {
+  const iso = toIsoDate(date);
+  const period = iso ? periods.find(item => item.start <= iso && iso < item.end) : undefined;
+  return { date: iso || date, covered: Boolean(period), policyNumbers: period?.policyNumbers || [] };
+}
+
+/**
+ * Coverage history over [from, to]: merged periods, the gaps between them
+ * clipped to the window, and answers for each of `jobDates`. Without past
+ * policies only positive answers are given; see `CoverageHistory`.
+ */
+export function buildCoverageHistory(
+  policies: CoveragePolicy[],
+  options: { from: string; to: string; jobDates?: string[]; includesPastPolicies: boolean }
+): CoverageHistory {
+  const periods = mergeCoveragePeriods(policies);
+  const windowStart = toDay(options.from);
+  // The window includes `to`, so uncovered time runs up to the day after it.
+  const windowEnd = toDay(options.to) + 1;
+
+  const gaps: CoverageGap[] = [];
+  let cursor = windowStart;
+  for (const period of periods) {
+    const start = toDay(period.start);
+    const end = toDay(period.end);
+    if (end <= cursor) continue;
+    if (start >= windowEnd) break;
+
+    if (start > cursor) {
+      gaps.push({ start: fromDay(cursor), end: fromDay(start - 1), days: start - cursor });
+    }
+    cursor = end;
+  }
+  if (cursor < windowEnd) {
+    gaps.push({ start: fromDay(cursor), end: fromDay(windowEnd - 1), days: windowEnd - cursor });
+  }
+
+  const uncoveredDays = gaps.reduce((total, gap) => total + gap.days, 0);
+  const complete = options.includesPastPolicies;
+  return {
+    from: options.from,
+    to: options.to,
+    includesPastPolicies: complete,
+    periods,
+    gaps: complete ? gaps : null,
+    uncoveredDays: complete ? uncoveredDays : null,
+    continuous: complete ? uncoveredDays === 0 : null,
+    jobDates: (options.jobDates || []).map(date => {
+      const answer = coveredOn(periods, date);
+      return complete || answer.covered ? answer : { ...answer, covered: null };
+    }),
+    skippedPolicies: policies.filter(policy => !policySpan(policy)).length,
+  };
+}
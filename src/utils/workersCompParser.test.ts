@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  coverageStatus,
+  isCurrentlyExempt,
+  parseExemptionHtml,
+  parseProofOfCoverageHtml,
+  readDataGrid,
+  selectGoverningClassCode,
+} from '@/utils/workersCompParser';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__/workersComp', name), 'utf8');
+
+const NOW = new Date('2024-07-01T12:00:00Z');
+
+describe('parseProofOfCoverageHtml', () => {
+  it('reads one policy per grid row by header text', () => {
+    const policies = parseProofOfCoverageHtml(fixture('proof-of-coverage.html'), NOW);
+
+    expect(policies).toHaveLength(3);
+    expect(policies[0]).toEqual({
+      employerName: 'ACME ROOFING LLC',
+      fein: '591234567',
+      address: '123 MAIN ST, TAMPA, FL 33602',
+      carrier: 'BRIDGEFIELD EMPLOYERS INSURANCE COMPANY',
+      policyNumber: '830-12345',
+      effectiveDate: '03/01/2024',
+      expirationDate: '03/01/2025',
+      cancellationDate: '',
+      governingClassCode: '5551',
+      status: 'active',
+      statusText: '',
+    });
+  });
+
+  it('derives status from cancellation and expiration dates', () => {
+    const policies = parseProofOfCoverageHtml(fixture('proof-of-coverage.html'), NOW);
+
+    expect(policies.map(policy => [policy.policyNumber, policy.status])).toEqual([
+      ['830-12345', 'active'],
+      ['830-09876', 'cancelled'],
+      ['JUA-55501', 'expired'],
+    ]);
+  });
+
+  it('falls back to the Label9 span for the class code', () => {
+    const policies = parseProofOfCoverageHtml(fixture('proof-of-coverage.html'), NOW);
+
+    expect(policies.every(policy => policy.governingClassCode === '5551')).toBe(true);
+    expect(selectGoverningClassCode(policies)).toBe('5551');
+  });
+
+  it('reads a tbody whose header row uses td cells', () => {
+    const policies = parseProofOfCoverageHtml(fixture('proof-of-coverage-td-header.html'), NOW);
+
+    expect(policies).toHaveLength(2);
+    expect(policies[0]).toMatchObject({
+      employerName: 'SUNCOAST PAINTING INC',
+      carrier: 'TECHNOLOGY INSURANCE COMPANY',
+      policyNumber: 'TWC4001234',
+      governingClassCode: '5474',
+      statusText: 'Active',
+      status: 'active',
+    });
+    expect(policies[1].status).toBe('cancelled');
+  });
+
+  it('returns no policies for an empty grid', () => {
+    expect(parseProofOfCoverageHtml('<table></table>', NOW)).toEqual([]);
+  });
+});
+
+describe('parseExemptionHtml', () => {
+  it('reads one record per exempt officer', () => {
+    const exemptions = parseExemptionHtml(fixture('exemptions.html'), NOW);
+
+    expect(exemptions).toHaveLength(4);
+    expect(exemptions[0]).toEqual({
+      officerName: 'DOE, JOHN A',
+      businessName: 'ACME ROOFING LLC',
+      fein: '591234567',
+      type: 'construction',
+      scope: '5551 - ROOFING',
+      effectiveDate: '01/15/2024',
+      expirationDate: '01/15/2026',
+      status: 'active',
+      statusText: 'Active',
+    });
+    expect(exemptions[3].type).toBe('non-construction');
+  });
+
+  it('takes a negative status column over dates still in range', () => {
+    const exemptions = parseExemptionHtml(fixture('exemptions.html'), NOW);
+
+    expect(exemptions.map(exemption => [exemption.officerName, exemption.statusText, exemption.status])).toEqual([
+      ['DOE, JOHN A', 'Active', 'active'],
+      ['DOE, JANE B', 'Inactive', 'expired'],
+      ['DOE, JOHN A', 'Superseded', 'cancelled'],
+      ['SMITH, ROBERT', 'Not Active', 'expired'],
+    ]);
+  });
+});
+
+describe('isCurrentlyExempt', () => {
+  it('needs at least one active exemption', () => {
+    const exemptions = parseExemptionHtml(fixture('exemptions.html'), NOW);
+
+    expect(isCurrentlyExempt(exemptions)).toBe(true);
+    expect(isCurrentlyExempt(exemptions.slice(1))).toBe(false);
+    expect(isCurrentlyExempt([])).toBe(false);
+  });
+});
+
+describe('coverageStatus', () => {
+  it('never reads a negative status as active', () => {
+    for (const statusText of ['Inactive', 'Not Active', 'Stopped', 'Superseded']) {
+      expect(coverageStatus(statusText, '01/01/2024', '01/01/2026', '2024-07-01')).not.toBe('active');
+    }
+    expect(coverageStatus('', '01/01/2024', '01/01/2026', '2024-07-01')).toBe('active');
+  });
+});
+
+describe('readDataGrid', () => {
+  it('takes the first row as the header when no row has th cells', () => {
+    const { headers, rows } = readDataGrid(fixture('proof-of-coverage-td-header.html'));
+
+    expect(headers[0]).toBe('Employer Name');
+    expect(rows).toHaveLength(2);
+  });
+});
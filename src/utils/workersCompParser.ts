@@ -0,0 +1,231 @@
+import { JSDOM } from 'jsdom';
+import { toIsoDate } from '@/utils/dates';
+import { resolveColumns } from '@/utils/htmlTable';
+
+// -------------------
+// Type Definitions
+// -------------------
+export type CoverageStatus = 'active' | 'future' | 'expired' | 'cancelled' | 'unknown';
+
+/** One row of the DWC Proof of Coverage grid. Dates are as DWC shows them (MM/DD/YYYY). */
+export interface CoveragePolicy {
+  employerName: string;
+  fein: string;
+  address: string;
+  carrier: string;
+  policyNumber: string;
+  effectiveDate: string;
+  expirationDate: string;
+  // Only shown when a policy was cancelled before it expired.
+  cancellationDate: string;
+  governingClassCode: string;
+  // Derived from the status column when DWC shows one, otherwise from the dates.
+  status: CoverageStatus;
+  statusText: string;
+}
+
+export type ExemptionType = 'construction' | 'non-construction' | 'unknown';
+
+/** One row of the DWC Exemption grid; each exempt officer gets their own row. */
+export interface ExemptionRecord {
+  officerName: string;
+  businessName: string;
+  fein: string;
+  type: ExemptionType;
+  scope: string;
+  effectiveDate: string;
+  expirationDate: string;
+  status: CoverageStatus;
+  statusText: string;
+}
+
+type PolicyField = Exclude<keyof CoveragePolicy, 'status'>;
+type ExemptionField = Exclude<keyof ExemptionRecord, 'type' | 'status'> | 'typeText';
+
+// -------------------
+// Configuration
+// -------------------
+
+// Resolved in this order so the more specific headers ("Policy Effective Date")
+// are claimed before the looser patterns ("Policy") see them.
+const POLICY_COLUMNS: [PolicyField, RegExp][] = [
+  ['effectiveDate', /effective/i],
+  ['expirationDate', /expir/i],
+  ['cancellationDate', /cancel/i],
+  ['governingClassCode', /class code/i],
+  ['fein', /fein|federal/i],
+  ['address', /address/i],
+  ['carrier', /carrier|insurer|insurance company/i],
+  ['statusText', /status/i],
+  ['policyNumber', /policy/i],
+  ['employerName', /employer|name/i],
+];
+
+// "Scope of Business" is claimed before the business name sees it.
+const EXEMPTION_COLUMNS: [ExemptionField, RegExp][] = [
+  ['effectiveDate', /effective/i],
+  ['expirationDate', /expir/i],
+  ['scope', /scope/i],
+  ['typeText', /type|construction/i],
+  ['statusText', /status/i],
+  ['fein', /fein|federal/i],
+  ['officerName', /officer|exempt.*name|^name$/i],
+  ['businessName', /business|company|employer/i],
+];
+
+// -------------------
+// Helper Functions
+// -------------------
+const cleanText = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim();
+
+/** Cell text with <br> line breaks kept apart, e.g. multi-line addresses. */
+function readCell(cell: Element | undefined): string {
+  if (!cell) return '';
+  const container = cell.ownerDocument.createElement('div');
+  container.innerHTML = cell.innerHTML.replace(/<br\s*\/?>/gi, '\n');
+  return (container.textContent || '')
+    .split('\n')
+    .map(line => cleanText(line))
+    .filter(Boolean)
+    .join(', ');
+}
+
+/**
+ * Parse the HTML of a DWC results grid into its header texts and data rows.
+ * Accepts the table or just its tbody; ASP.NET DataGrids keep the header row
+ * inside the tbody, and some render it with `td` cells, in which case the
+ * first row is taken as the header.
+ */
+export function readDataGrid(html: string): { headers: string[]; rows: Element[][] } {
+  const source = /^\s*<table/i.test(html) ? html : `<table>${html}</table>`;
+  const { document } = new JSDOM(source).window;
+  const rows = Array.from(document.querySelectorAll('tr'));
+
+  const headerRow = rows.find(row => row.querySelector('th')) || rows[0] || null;
+  const headerCells = headerRow ? Array.from(headerRow.querySelectorAll('th, td')) : [];
+
+  return {
+    headers: headerCells.map(cell => cleanText(cell.textContent)),
+    rows: rows
+      .filter(row => row !== headerRow)
+      .map(row => Array.from(row.querySelectorAll('td')))
+      .filter(cells => cells.length > 1 && cells.some(cell => cleanText(cell.textContent))),
+  };
+}
+
+/**
+ * A status column that says the record isn't in effect wins over its dates, so
+ * an "Inactive" exemption with a future expiration isn't counted as active.
+ */
+export function coverageStatus(statusText: string, effectiveDate: string, expirationDate: string, today: string): CoverageStatus {
+  if (/cancel|revoked|withdrawn|stopped|superseded/i.test(statusText)) return 'cancelled';
+  if (/expired|lapsed|inactive|not\s+(?:active|in effect)/i.test(statusText)) return 'expired';
+
+  const effective = toIsoDate(effectiveDate);
+  const expiration = toIsoDate(expirationDate);
+  if (expiration && expiration < today) return 'expired';
+  if (effective && effective > today) return 'future';
+  if (effective || expiration || /active|in effect/i.test(statusText)) return 'active';
+  return 'unknown';
+}
+
+function exemptionType(text: string): ExemptionType {
+  if (/non[-\s]*construction/i.test(text)) return 'non-construction';
+  if (/construction/i.test(text)) return 'construction';
+  return 'unknown';
+}
+
+// -------------------
+// Parsers
+// -------------------
+
+/**
+ * Parse the Proof of Coverage grid (`table.DataGrid_POC`) into one record per
+ * policy row. Columns are matched by header text; the governing class code
+ * falls back to DWC's `Label9` span when the header isn't recognised.
+ */
+export function parseProofOfCoverageHtml(html: string, now = new Date()): CoveragePolicy[] {
+  const { headers, rows } = readDataGrid(html);
+  const columns = resolveColumns(headers, POLICY_COLUMNS);
+  const today = now.toISOString().slice(0, 10);
+
+  return rows.map(cells => {
+    const read = (field: PolicyField) => {
+      const index = columns[field];
+      return index === undefined ? '' : readCell(cells[index]);
+    };
+
+    const classCode =
+      read('governingClassCode') ||
+      cleanText(cells.map(cell => cell.querySelector('span[id*="_Label9_"]')).find(Boolean)?.textContent);
+    const policy = {
+      employerName: read('employerName'),
+      fein: read('fein'),
+      address: read('address'),
+      carrier: read('carrier'),
+      policyNumber: read('policyNumber'),
+      effectiveDate: read('effectiveDate'),
+      expirationDate: read('expirationDate'),
+      cancellationDate: read('cancellationDate'),
+      governingClassCode: classCode,
+      statusText: read('statusText'),
+    };
+
+    const cancelled = toIsoDate(policy.cancellationDate);
+    return {
+      ...policy,
+      status:
+        cancelled && cancelled <= today
+          ? 'cancelled'
+          : coverageStatus(policy.statusText, policy.effectiveDate, policy.expirationDate, today),
+    };
+  });
+}
+
+/**
+ * Parse the Exemption grid (`table.DataGrid_Exemption`) into one record per
+ * exempt officer.
+ */
+export function parseExemptionHtml(html: string, now = new Date()): ExemptionRecord[] {
+  const { headers, rows } = readDataGrid(html);
+  const columns = resolveColumns(headers, EXEMPTION_COLUMNS);
+  const today = now.toISOString().slice(0, 10);
+
+  return rows.map(cells => {
+    const read = (field: ExemptionField) => {
+      const index = columns[field];
+      return index === undefined ? '' : readCell(cells[index]);
+    };
+
+    const record = {
+      officerName: read('officerName'),
+      businessName: read('businessName'),
+      fein: read('fein'),
+      type: exemptionType(read('typeText')),
+      scope: read('scope'),
+      effectiveDate: read('effectiveDate'),
+      expirationDate: read('expirationDate'),
+      statusText: read('statusText'),
+    };
+
+    return {
+      ...record,
+      status: coverageStatus(record.statusText, record.effectiveDate, record.expirationDate, today),
+    };
+  });
+}
+
+/** True when at least one exemption is in effect today. */
+export function isCurrentlyExempt(exemptions: ExemptionRecord[]): boolean {
+  return exemptions.some(exemption => exemption.status === 'active');
+}
+
+/**
+ * The class code the class-code lookup should describe: the first policy in
+ * effect, or failing that the first one listed.
+ */
+export function selectGoverningClassCode(policies: CoveragePolicy[]): string | null {
+  const inEffect = policies.find(policy => policy.status === 'active' && /^\d{4,5}$/.test(policy.governingClassCode));
+  const any = policies.find(policy => /^\d{4,5}$/.test(policy.governingClassCode));
+  return (inEffect || any)?.governingClassCode || null;
+}
@@ -0,0 +1,111 @@
+-- Tables used by the API routes when Supabase is configured.
+-- Without Supabase credentials the same data is kept as JSON under LOCAL_DATA_DIR.
+
+-- Result cache for registry lookups (src/utils/resultCache.ts)
+create table if not exists lookup_cache (
+  cache_key text primary key,
+  source text not null,
+  payload jsonb not null,
+  cached_at timestamptz not null default now()
+);
+
+create index if not exists lookup_cache_source_idx on lookup_cache (source);
+
+-- Asynchronous lookup jobs (src/utils/jobStore.ts)
+create table if not exists lookup_jobs (
+  id uuid primary key,
+  type text not null,
+  status text not null,
+  job jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lookup_jobs_status_idx on lookup_jobs (status, updated_at);
+
+-- Archived Sunbiz document images (src/utils/sunbizDocuments.ts). Files live
+-- under <document number>/ with a manifest.json; the bucket is public so the
+-- returned URLs stay stable. Override the name with SUNBIZ_DOCUMENTS_BUCKET.
+insert into storage.buckets (id, name, public)
+values ('sunbiz-documents', 'sunbiz-documents', true)
+on conflict (id) do nothing;
+
+-- Finished Apify actor runs and what they cost (src/utils/apifyUsage.ts)
+create table if not exists apify_runs (
+  run_id text primary key,
+  actor_id text not null,
+  status text not null,
+  started_at timestamptz not null,
+  record jsonb not null,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists apify_runs_started_idx on apify_runs (started_at);
+
+-- Relationship graph of Sunbiz entities, people and addresses (src/utils/relationshipGraph.ts)
+create table if not exists relationship_entities (
+  document_number text primary key,
+  entity_name text not null default '',
+  status text not null default '',
+  indexed_at timestamptz not null default now()
+);
+
+create table if not exists relationship_links (
+  id bigint generated always as identity primary key,
+  document_number text not null references relationship_entities (document_number) on delete cascade,
+  node_type text not null,
+  node_key text not null,
+  label text not null,
+  role text not null,
+  title text
+);
+
+create index if not exists relationship_links_document_idx on relationship_links (document_number);
+create index if not exists relationship_links_node_idx on relationship_links (node_key);
+
+-- Replaces an entity's links in one transaction. The entity upsert locks its
+-- row first, so two indexings of the same entity run one after the other.
+create or replace function index_relationship_entity(p_entity jsonb, p_links jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  insert into relationship_entities (document_number, entity_name, status, indexed_at)
+  values (
+    p_entity->>'document_number',
+    coalesce(p_entity->>'entity_name', ''),
+    coalesce(p_entity->>'status', ''),
+    coalesce((p_entity->>'indexed_at')::timestamptz, now())
+  )
+  on conflict (document_number) do update
+    set entity_name = excluded.entity_name,
+        status = excluded.status,
+        indexed_at = excluded.indexed_at;
+
+  delete from relationship_links where document_number = p_entity->>'document_number';
+
+  insert into relationship_links (document_number, node_type, node_key, label, role, title)
+  select p_entity->>'document_number', link->>'node_type', link->>'node_key', link->>'label', link->>'role', link->>'title'
+  from jsonb_array_elements(coalesce(p_links, '[]'::jsonb)) as link;
+end;
+$$;
+
+-- Watched companies and their change history (src/utils/watchlistStore.ts)
+create table if not exists watched_companies (
+  id uuid primary key,
+  company jsonb not null,
+  next_check_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists watched_companies_next_check_idx on watched_companies (next_check_at);
+
+create table if not exists watch_changes (
+  id uuid primary key,
+  watch_id uuid not null references watched_companies (id) on delete cascade,
+  detected_at timestamptz not null,
+  change jsonb not null
+);
+
+create index if not exists watch_changes_watch_idx on watch_changes (watch_id, detected_at);